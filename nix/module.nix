@@ -9,6 +9,11 @@ let
     };
     storage = {
       dataDir = cfg.dataDir;
+      inboxDir = cfg.inboxDir;
+    };
+    uploads = {
+      maxFileSizeMb = cfg.maxUploadSize;
+      formats = cfg.uploadFormats;
     };
   });
 in
@@ -34,6 +39,30 @@ in
       description = "Directory for storing books and database";
     };
 
+    inboxDir = lib.mkOption {
+      type = lib.types.nullOr lib.types.str;
+      default = null;
+      example = "/srv/sync/books";
+      description = ''
+        Folder watched for books to import automatically. Processed files are
+        moved to its done/ and failed/ subfolders, so the service needs write
+        access to it.
+      '';
+    };
+
+    maxUploadSize = lib.mkOption {
+      type = lib.types.ints.positive;
+      default = 100;
+      description = "Largest accepted upload, in MB";
+    };
+
+    uploadFormats = lib.mkOption {
+      type = lib.types.nullOr (lib.types.listOf (lib.types.enum [ "epub" "txt" "md" "html" "mobi" "azw3" "fb2" ]));
+      default = null;
+      example = [ "epub" ];
+      description = "Formats accepted for upload (null for all supported formats)";
+    };
+
     openFirewall = lib.mkOption {
       type = lib.types.bool;
       default = false;
@@ -66,7 +95,7 @@ in
         ProtectSystem = "strict";
         ProtectHome = true;
         PrivateTmp = true;
-        ReadWritePaths = [ cfg.dataDir ];
+        ReadWritePaths = [ cfg.dataDir ] ++ lib.optional (cfg.inboxDir != null) cfg.inboxDir;
       };
 
       environment = {
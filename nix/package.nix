@@ -39,6 +39,7 @@ pkgs.stdenv.mkDerivation {
     # Copy built files
     cp -r dist $out/lib/rsvpub/
     cp -r server $out/lib/rsvpub/
+    cp -r src $out/lib/rsvpub/
     cp -r public $out/lib/rsvpub/
     cp package.json $out/lib/rsvpub/
 
@@ -0,0 +1,40 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { loadConfig } from './config';
+
+let dir: string;
+const argv = process.argv;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvpub-config-'));
+});
+
+afterEach(() => {
+  process.argv = argv;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function loadWith(uploads: Record<string, unknown>) {
+  const configPath = path.join(dir, 'config.json');
+  fs.writeFileSync(configPath, JSON.stringify({ storage: { dataDir: dir }, uploads }));
+  process.argv = ['node', 'server', '--config', configPath];
+  return loadConfig();
+}
+
+describe('loadConfig uploads', () => {
+  it('converts the size limit to whole bytes', () => {
+    expect(loadWith({ maxFileSizeMb: 50 }).uploads.maxFileSize).toBe(50 * 1024 * 1024);
+    expect(loadWith({ maxFileSizeMb: 0.5 }).uploads.maxFileSize).toBe(512 * 1024);
+    expect(loadWith({ maxFileSizeMb: 1.0000001 }).uploads.maxFileSize).toBe(1048576);
+  });
+
+  it('defaults to 100 MB', () => {
+    expect(loadWith({}).uploads.maxFileSize).toBe(100 * 1024 * 1024);
+  });
+
+  it.each([0, -5, '100', true, 1e-9])('refuses to start with a limit of %s', maxFileSizeMb => {
+    expect(() => loadWith({ maxFileSizeMb })).toThrow(/uploads\.maxFileSizeMb/);
+  });
+});
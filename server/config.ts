@@ -1,6 +1,8 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import type { BookFormat } from '../src/types';
+import { BOOK_FORMATS, isBookFormat } from '../src/import/formats';
 
 export interface ServerConfig {
   port: number;
@@ -10,12 +12,24 @@ export interface ServerConfig {
 export interface StorageConfig {
   dataDir: string;
   booksDir: string;
+  // Extracted ProcessedBook JSON, safe to delete at any time
+  cacheDir: string;
   dbPath: string;
+  // Folder watched for books to import, if any
+  inboxDir: string | null;
+}
+
+export interface UploadConfig {
+  // Largest accepted upload, in bytes
+  maxFileSize: number;
+  // Formats accepted for upload (books already stored can still be read)
+  formats: BookFormat[];
 }
 
 export interface AppConfig {
   server: ServerConfig;
   storage: StorageConfig;
+  uploads: UploadConfig;
 }
 
 interface RawConfig {
@@ -25,6 +39,11 @@ interface RawConfig {
   };
   storage?: {
     dataDir?: string;
+    inboxDir?: string | null;
+  };
+  uploads?: {
+    maxFileSizeMb?: number;
+    formats?: string[];
   };
 }
 
@@ -99,6 +118,10 @@ export function loadConfig(): AppConfig {
     storage: {
       dataDir: '~/.local/share/rsvpub',
     },
+    uploads: {
+      maxFileSizeMb: 100,
+      formats: BOOK_FORMATS,
+    },
   };
 
   let rawConfig: RawConfig = defaults;
@@ -111,6 +134,7 @@ export function loadConfig(): AppConfig {
       rawConfig = {
         server: { ...defaults.server, ...parsed.server },
         storage: { ...defaults.storage, ...parsed.storage },
+        uploads: { ...defaults.uploads, ...parsed.uploads },
       };
       console.log(`Loaded config from: ${configPath}`);
     } catch (err) {
@@ -124,19 +148,48 @@ export function loadConfig(): AppConfig {
   const port = cliArgs.port ?? rawConfig.server?.port ?? 7787;
   const host = cliArgs.host ?? rawConfig.server?.host ?? '127.0.0.1';
   const dataDir = expandPath(rawConfig.storage?.dataDir ?? '~/.local/share/rsvpub');
+  const inboxDir = rawConfig.storage?.inboxDir ? expandPath(rawConfig.storage.inboxDir) : null;
+  const maxFileSizeMb = rawConfig.uploads?.maxFileSizeMb ?? 100;
+  const maxFileSize = Math.floor(maxFileSizeMb * 1024 * 1024);
+  // A bad limit would otherwise reject every upload or none, so don't start
+  if (typeof maxFileSizeMb !== 'number' || !Number.isFinite(maxFileSize) || maxFileSize < 1) {
+    throw new Error(`uploads.maxFileSizeMb must be a positive number, not ${JSON.stringify(maxFileSizeMb)}`);
+  }
+  const formats = (rawConfig.uploads?.formats ?? BOOK_FORMATS).filter((format): format is BookFormat => {
+    if (isBookFormat(format)) return true;
+    console.warn(`Ignoring unknown upload format in config: ${format}`);
+    return false;
+  });
 
   return {
     server: { port, host },
     storage: {
       dataDir,
       booksDir: path.join(dataDir, 'books'),
+      cacheDir: path.join(dataDir, 'cache'),
       dbPath: path.join(dataDir, 'rsvpub.db'),
+      inboxDir,
+    },
+    uploads: {
+      maxFileSize,
+      formats,
     },
   };
 }
 
+// Where the inbox moves files once they're processed
+export function getInboxDirs(inboxDir: string): { done: string; failed: string } {
+  return {
+    done: path.join(inboxDir, 'done'),
+    failed: path.join(inboxDir, 'failed'),
+  };
+}
+
 export function ensureStorageDirs(config: AppConfig): void {
-  const dirs = [config.storage.dataDir, config.storage.booksDir];
+  const dirs = [config.storage.dataDir, config.storage.booksDir, config.storage.cacheDir];
+  if (config.storage.inboxDir) {
+    dirs.push(config.storage.inboxDir, ...Object.values(getInboxDirs(config.storage.inboxDir)));
+  }
 
   for (const dir of dirs) {
     if (!fs.existsSync(dir)) {
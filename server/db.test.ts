@@ -0,0 +1,66 @@
+import { fork } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DB } from './db';
+import { testConfig } from './test/helpers';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvpub-db-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Start a child writing to the database and SIGKILL it, by PID, once it has
+// reported `writes` writes. Resolves with the last write it reported.
+async function writeAndKill(writes: number): Promise<number> {
+  const child = fork(path.join(__dirname, 'test/db-writer.ts'), [dir], {
+    execArgv: ['--import', 'tsx'],
+    stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+  });
+
+  let last = 0;
+  let first: number | null = null;
+  const exited = new Promise(resolve => child.on('exit', resolve));
+  await new Promise<void>((resolve, reject) => {
+    child.on('message', (seq: number) => {
+      last = seq;
+      first ??= seq;
+      if (seq - first + 1 >= writes) resolve();
+    });
+    child.on('exit', code => reject(new Error(`Writer exited early (${code})`)));
+  });
+
+  process.kill(child.pid!, 'SIGKILL');
+  await exited;
+  return last;
+}
+
+describe('DB crash safety', () => {
+  it('keeps every acknowledged write when the process is killed mid-write', async () => {
+    // The last round writes enough (over 1 MiB of journal) to be killed
+    // after a compaction
+    for (const writes of [50, 2000, 3000]) {
+      const acknowledged = await writeAndKill(writes);
+
+      const db = await DB.create(testConfig(dir));
+      try {
+        // Writes after the last acknowledged one may or may not have landed,
+        // but each write lands whole: the position is at most one write
+        // (the session that goes with it) ahead
+        const sessions = db.getAggregateStats('crash').totalSessions;
+        const chapter = db.getPosition('crash')!.chapterIndex;
+        expect(sessions).toBeGreaterThanOrEqual(acknowledged);
+        expect(chapter - sessions).toBeGreaterThanOrEqual(0);
+        expect(chapter - sessions).toBeLessThanOrEqual(1);
+      } finally {
+        db.close();
+      }
+    }
+  }, 120_000);
+});
@@ -2,6 +2,9 @@ import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import type { AppConfig } from './config';
+import type { BookFormat, PositionAnchor } from '../src/types';
+import { isPositionAnchor } from '../src/rsvp/anchor';
+import { MigrationError, SCHEMA_VERSION, getSchemaVersion, migrate } from './migrations';
 
 export interface BookRecord {
   id: number;
@@ -17,6 +20,11 @@ export interface BookRecord {
   position_word: number;
   position_wpm: number;
   position_chapter_title: string | null;
+  // PositionAnchor JSON, to relocate the position if indices shift
+  position_anchor: string | null;
+  // Default timing profile for this book
+  profile_id: number | null;
+  format: BookFormat;
 }
 
 export interface CheckpointRecord {
@@ -39,55 +47,43 @@ export interface StatsRecord {
   avg_wpm: number | null;
 }
 
-const SCHEMA = `
--- Books table (identified by hash)
-CREATE TABLE IF NOT EXISTS books (
-  id INTEGER PRIMARY KEY,
-  hash TEXT UNIQUE NOT NULL,
-  filename TEXT NOT NULL,
-  title TEXT,
-  author TEXT,
-  added_at INTEGER NOT NULL,
-  last_read_at INTEGER
-);
-
--- Reading checkpoints (history)
-CREATE TABLE IF NOT EXISTS checkpoints (
-  id INTEGER PRIMARY KEY,
-  book_hash TEXT NOT NULL,
-  chapter_index INTEGER NOT NULL,
-  paragraph_index INTEGER NOT NULL,
-  word_index INTEGER NOT NULL,
-  wpm INTEGER NOT NULL,
-  chapter_title TEXT,
-  created_at INTEGER NOT NULL,
-  FOREIGN KEY (book_hash) REFERENCES books(hash)
-);
-
--- Reading stats
-CREATE TABLE IF NOT EXISTS stats (
-  id INTEGER PRIMARY KEY,
-  book_hash TEXT NOT NULL,
-  session_start INTEGER NOT NULL,
-  session_end INTEGER NOT NULL,
-  words_read INTEGER NOT NULL,
-  avg_wpm REAL,
-  FOREIGN KEY (book_hash) REFERENCES books(hash)
-);
-
--- Indexes for common queries
-CREATE INDEX IF NOT EXISTS idx_checkpoints_book ON checkpoints(book_hash);
-CREATE INDEX IF NOT EXISTS idx_checkpoints_created ON checkpoints(created_at);
-CREATE INDEX IF NOT EXISTS idx_stats_book ON stats(book_hash);
-`;
+export interface ProfileRecord {
+  id: number;
+  name: string;
+  settings: string; // JSON, opaque to the server
+  created_at: number;
+  updated_at: number;
+}
+
+// sql.js keeps the database in memory, so changes are made durable by
+// appending them to a journal next to the database file (flushed to disk
+// before the request that made them returns) and replaying it on startup.
+// The database file itself is only rewritten once the journal grows past
+// this size, or on startup and shutdown, and then atomically: written to a
+// temporary file and renamed over the old one.
+const JOURNAL_LIMIT = 1024 * 1024;
+
+type SqlParam = string | number | null;
+type Statement = [sql: string, params: SqlParam[]];
+
+interface JournalEntry {
+  seq: number;
+  statements: Statement[];
+}
 
 export class DB {
   private db!: SqlJsDatabase;
   private dbPath: string;
-  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private journalPath: string;
+  private journalFd: number | null = null;
+  // Sequence number of the last journaled change, and the journal's size
+  private journalSeq = 0;
+  private journalSize = 0;
+  private snapshotTimer: ReturnType<typeof setTimeout> | null = null;
 
   private constructor(dbPath: string) {
     this.dbPath = dbPath;
+    this.journalPath = `${dbPath}.journal`;
   }
 
   static async create(config: AppConfig): Promise<DB> {
@@ -100,121 +96,180 @@ export class DB {
     const SQL = await initSqlJs();
 
     // Load existing database or create new one
-    if (fs.existsSync(this.dbPath)) {
-      const buffer = fs.readFileSync(this.dbPath);
-      this.db = new SQL.Database(buffer);
-    } else {
-      this.db = new SQL.Database();
+    const exists = fs.existsSync(this.dbPath);
+    this.db = exists ? new SQL.Database(fs.readFileSync(this.dbPath)) : new SQL.Database();
+
+    const version = getSchemaVersion(this.db);
+    if (version > SCHEMA_VERSION) {
+      throw new MigrationError(
+        `${this.dbPath} is at schema version ${version}, but this version of rsvpub only knows up to ` +
+        `version ${SCHEMA_VERSION}. Upgrade rsvpub or point it at a different data directory.`
+      );
     }
 
-    // Run schema
-    this.db.run(SCHEMA);
+    // Changes made since the database file was last written, which belong
+    // to the schema it was written with
+    this.replayJournal();
 
-    // Migration: add chapter_title column if it doesn't exist
-    try {
-      this.db.run('ALTER TABLE checkpoints ADD COLUMN chapter_title TEXT');
-    } catch {
-      // Column already exists, ignore
+    if (version < SCHEMA_VERSION) {
+      if (exists) this.writeBackup(version);
+      migrate(this.db);
     }
 
-    // Migration: add position columns to books table
-    const positionMigrations = [
-      'ALTER TABLE books ADD COLUMN position_chapter INTEGER DEFAULT 0',
-      'ALTER TABLE books ADD COLUMN position_paragraph INTEGER DEFAULT 0',
-      'ALTER TABLE books ADD COLUMN position_word INTEGER DEFAULT 0',
-      'ALTER TABLE books ADD COLUMN position_wpm INTEGER DEFAULT 300',
-      'ALTER TABLE books ADD COLUMN position_chapter_title TEXT',
-    ];
+    // Fold the replayed journal into the database file and start a new one
+    this.writeSnapshot();
+  }
+
+  private replayJournal(): void {
+    if (!fs.existsSync(this.journalPath)) return;
 
-    for (const sql of positionMigrations) {
+    const stmt = this.db.prepare('SELECT seq FROM journal');
+    stmt.step();
+    this.journalSeq = stmt.getAsObject().seq as number;
+    stmt.free();
+
+    let replayed = 0;
+    for (const line of fs.readFileSync(this.journalPath, 'utf-8').split('\n')) {
+      if (!line) continue;
+
+      let entry: JournalEntry;
       try {
-        this.db.run(sql);
+        entry = JSON.parse(line);
       } catch {
-        // Column already exists, ignore
+        // A crash mid-append leaves a partial last line; nothing after it was written
+        console.warn('Ignoring incomplete entry at the end of the database journal');
+        break;
       }
+
+      // Entries already in the database file (the process stopped between
+      // writing it and clearing the journal)
+      if (entry.seq <= this.journalSeq) continue;
+
+      this.runStatements(entry.statements);
+      this.journalSeq = entry.seq;
+      replayed++;
+    }
+
+    if (replayed > 0) {
+      console.log(`Recovered ${replayed} change(s) from the database journal`);
+    }
+  }
+
+  // Run a change and journal it. Statements run in one transaction and are
+  // journaled (and replayed) together.
+  private write(...statements: Statement[]): void {
+    this.runStatements(statements);
+
+    const entry: JournalEntry = { seq: this.journalSeq + 1, statements };
+    const line = JSON.stringify(entry) + '\n';
+    if (this.journalFd === null) {
+      this.journalFd = fs.openSync(this.journalPath, 'a');
+    }
+    fs.writeSync(this.journalFd, line);
+    fs.fdatasyncSync(this.journalFd);
+    this.journalSeq = entry.seq;
+    this.journalSize += Buffer.byteLength(line);
+
+    if (this.journalSize >= JOURNAL_LIMIT) {
+      this.scheduleSnapshot();
     }
+  }
 
-    // Migrate existing checkpoint data to position fields
-    this.migrateCheckpointsToPosition();
-
-    this.save();
-  }
-
-  private migrateCheckpointsToPosition(): void {
-    // Get all books that might need migration
-    const books = this.getAllBooks();
-
-    for (const book of books) {
-      // Check if position is at default (0,0,0) and checkpoints exist
-      if (
-        book.position_chapter === 0 &&
-        book.position_paragraph === 0 &&
-        book.position_word === 0
-      ) {
-        const checkpoint = this.getLatestCheckpoint(book.hash);
-        if (checkpoint) {
-          this.db.run(
-            `UPDATE books SET
-              position_chapter = ?,
-              position_paragraph = ?,
-              position_word = ?,
-              position_wpm = ?,
-              position_chapter_title = ?
-            WHERE hash = ?`,
-            [
-              checkpoint.chapter_index,
-              checkpoint.paragraph_index,
-              checkpoint.word_index,
-              checkpoint.wpm,
-              checkpoint.chapter_title,
-              book.hash,
-            ]
-          );
-        }
+  private runStatements(statements: Statement[]): void {
+    this.db.run('BEGIN');
+    try {
+      for (const [sql, params] of statements) {
+        this.db.run(sql, params);
       }
+      this.db.run('COMMIT');
+    } catch (err) {
+      this.db.run('ROLLBACK');
+      throw err;
     }
   }
 
-  private save(): void {
-    // Debounce saves to avoid excessive disk writes
-    if (this.saveTimer) {
-      clearTimeout(this.saveTimer);
+  // Deferred so it doesn't run between a write and reading back its row
+  private scheduleSnapshot(): void {
+    if (this.snapshotTimer) return;
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = null;
+      this.writeSnapshot();
+    }, 0);
+  }
+
+  // Write the whole database atomically, then clear the journal it now includes
+  private writeSnapshot(): void {
+    this.db.run('UPDATE journal SET seq = ?', [this.journalSeq]);
+    this.writeFileAtomic(this.dbPath, this.db.export());
+
+    if (this.journalFd !== null) {
+      fs.closeSync(this.journalFd);
+      this.journalFd = null;
     }
-    this.saveTimer = setTimeout(() => {
-      this.saveSync();
-    }, 100);
+    fs.rmSync(this.journalPath, { force: true });
+    this.journalSize = 0;
+  }
+
+  // The database as it was before an upgrade, kept next to it in case a
+  // migration turns out to be wrong
+  private writeBackup(version: number): void {
+    const backupPath = `${this.dbPath}.v${version}.bak`;
+    this.writeFileAtomic(backupPath, this.db.export());
+    console.log(`Backed up the database to ${backupPath} before upgrading it`);
   }
 
-  private saveSync(): void {
-    const data = this.db.export();
-    const buffer = Buffer.from(data);
-    const dir = path.dirname(this.dbPath);
+  // Write to a temporary file and rename it into place, so a crash leaves
+  // either the old file or the new one
+  private writeFileAtomic(filePath: string, data: Uint8Array): void {
+    const dir = path.dirname(filePath);
     if (!fs.existsSync(dir)) {
       fs.mkdirSync(dir, { recursive: true });
     }
-    fs.writeFileSync(this.dbPath, buffer);
+
+    const tempPath = `${filePath}.tmp`;
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, filePath);
+    this.syncDirectory(dir);
+  }
+
+  // Make a rename durable (not supported on every platform)
+  private syncDirectory(dir: string): void {
+    try {
+      const fd = fs.openSync(dir, 'r');
+      try {
+        fs.fsyncSync(fd);
+      } finally {
+        fs.closeSync(fd);
+      }
+    } catch {
+      // Ignore; the rename itself is still atomic
+    }
   }
 
   // Books
-  addBook(hash: string, filename: string, title?: string, author?: string): BookRecord {
+  addBook(hash: string, filename: string, title?: string, author?: string, format: BookFormat = 'epub'): BookRecord {
     // Check if exists
     const existing = this.getBook(hash);
     if (existing) {
       // Update existing
-      this.db.run(
+      this.write([
         `UPDATE books SET filename = ?, title = COALESCE(?, title), author = COALESCE(?, author) WHERE hash = ?`,
-        [filename, title ?? null, author ?? null, hash]
-      );
-      this.save();
+        [filename, title ?? null, author ?? null, hash],
+      ]);
       return this.getBook(hash)!;
     }
 
     // Insert new
-    this.db.run(
-      `INSERT INTO books (hash, filename, title, author, added_at) VALUES (?, ?, ?, ?, ?)`,
-      [hash, filename, title ?? null, author ?? null, Date.now()]
-    );
-    this.save();
+    this.write([
+      `INSERT INTO books (hash, filename, title, author, added_at, format) VALUES (?, ?, ?, ?, ?, ?)`,
+      [hash, filename, title ?? null, author ?? null, Date.now(), format],
+    ]);
     return this.getBook(hash)!;
   }
 
@@ -241,15 +296,19 @@ export class DB {
   }
 
   updateLastRead(hash: string): void {
-    this.db.run('UPDATE books SET last_read_at = ? WHERE hash = ?', [Date.now(), hash]);
-    this.save();
+    this.write(['UPDATE books SET last_read_at = ? WHERE hash = ?', [Date.now(), hash]]);
   }
 
   deleteBook(hash: string): void {
-    this.db.run('DELETE FROM checkpoints WHERE book_hash = ?', [hash]);
-    this.db.run('DELETE FROM stats WHERE book_hash = ?', [hash]);
-    this.db.run('DELETE FROM books WHERE hash = ?', [hash]);
-    this.save();
+    this.write(
+      ['DELETE FROM checkpoints WHERE book_hash = ?', [hash]],
+      ['DELETE FROM stats WHERE book_hash = ?', [hash]],
+      ['DELETE FROM books WHERE hash = ?', [hash]]
+    );
+  }
+
+  setBookProfile(hash: string, profileId: number | null): void {
+    this.write(['UPDATE books SET profile_id = ? WHERE hash = ?', [profileId, hash]]);
   }
 
   // Checkpoints
@@ -262,11 +321,10 @@ export class DB {
     chapterTitle?: string
   ): CheckpointRecord {
     const createdAt = Date.now();
-    this.db.run(
+    this.write([
       `INSERT INTO checkpoints (book_hash, chapter_index, paragraph_index, word_index, wpm, chapter_title, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)`,
-      [bookHash, chapterIndex, paragraphIndex, wordIndex, wpm, chapterTitle ?? null, createdAt]
-    );
-    this.save();
+      [bookHash, chapterIndex, paragraphIndex, wordIndex, wpm, chapterTitle ?? null, createdAt],
+    ]);
 
     // Get the inserted row
     const stmt = this.db.prepare('SELECT * FROM checkpoints WHERE rowid = last_insert_rowid()');
@@ -310,20 +368,21 @@ export class DB {
     paragraphIndex: number,
     wordIndex: number,
     wpm: number,
-    chapterTitle?: string
+    chapterTitle?: string,
+    anchor?: PositionAnchor
   ): void {
-    this.db.run(
+    this.write([
       `UPDATE books SET
         position_chapter = ?,
         position_paragraph = ?,
         position_word = ?,
         position_wpm = ?,
         position_chapter_title = ?,
+        position_anchor = ?,
         last_read_at = ?
       WHERE hash = ?`,
-      [chapterIndex, paragraphIndex, wordIndex, wpm, chapterTitle ?? null, Date.now(), hash]
-    );
-    this.save();
+      [chapterIndex, paragraphIndex, wordIndex, wpm, chapterTitle ?? null, anchor ? JSON.stringify(anchor) : null, Date.now(), hash],
+    ]);
   }
 
   getPosition(hash: string): {
@@ -332,6 +391,7 @@ export class DB {
     wordIndex: number;
     wpm: number;
     chapterTitle: string | null;
+    anchor: PositionAnchor | null;
   } | null {
     const book = this.getBook(hash);
     if (!book) return null;
@@ -352,9 +412,20 @@ export class DB {
       wordIndex: book.position_word,
       wpm: book.position_wpm,
       chapterTitle: book.position_chapter_title,
+      anchor: this.parseAnchor(book.position_anchor),
     };
   }
 
+  private parseAnchor(json: string | null): PositionAnchor | null {
+    if (!json) return null;
+    try {
+      const anchor: unknown = JSON.parse(json);
+      return isPositionAnchor(anchor) ? anchor : null;
+    } catch {
+      return null;
+    }
+  }
+
   // Stats
   addSession(
     bookHash: string,
@@ -363,11 +434,10 @@ export class DB {
     wordsRead: number,
     avgWpm?: number
   ): StatsRecord {
-    this.db.run(
+    this.write([
       `INSERT INTO stats (book_hash, session_start, session_end, words_read, avg_wpm) VALUES (?, ?, ?, ?, ?)`,
-      [bookHash, sessionStart, sessionEnd, wordsRead, avgWpm ?? null]
-    );
-    this.save();
+      [bookHash, sessionStart, sessionEnd, wordsRead, avgWpm ?? null],
+    ]);
 
     const stmt = this.db.prepare('SELECT * FROM stats WHERE rowid = last_insert_rowid()');
     stmt.step();
@@ -420,11 +490,75 @@ export class DB {
     };
   }
 
+  // Profiles
+  getProfiles(): ProfileRecord[] {
+    const results: ProfileRecord[] = [];
+    const stmt = this.db.prepare('SELECT * FROM profiles ORDER BY name COLLATE NOCASE');
+    while (stmt.step()) {
+      results.push(stmt.getAsObject() as unknown as ProfileRecord);
+    }
+    stmt.free();
+    return results;
+  }
+
+  getProfile(id: number): ProfileRecord | undefined {
+    const stmt = this.db.prepare('SELECT * FROM profiles WHERE id = ?');
+    stmt.bind([id]);
+    if (stmt.step()) {
+      const row = stmt.getAsObject() as unknown as ProfileRecord;
+      stmt.free();
+      return row;
+    }
+    stmt.free();
+    return undefined;
+  }
+
+  getProfileByName(name: string): ProfileRecord | undefined {
+    const stmt = this.db.prepare('SELECT * FROM profiles WHERE name = ?');
+    stmt.bind([name]);
+    if (stmt.step()) {
+      const row = stmt.getAsObject() as unknown as ProfileRecord;
+      stmt.free();
+      return row;
+    }
+    stmt.free();
+    return undefined;
+  }
+
+  createProfile(name: string, settings: string): ProfileRecord {
+    const now = Date.now();
+    this.write([
+      `INSERT INTO profiles (name, settings, created_at, updated_at) VALUES (?, ?, ?, ?)`,
+      [name, settings, now, now],
+    ]);
+
+    const stmt = this.db.prepare('SELECT * FROM profiles WHERE rowid = last_insert_rowid()');
+    stmt.step();
+    const row = stmt.getAsObject() as unknown as ProfileRecord;
+    stmt.free();
+    return row;
+  }
+
+  updateProfile(id: number, name: string, settings: string): ProfileRecord | undefined {
+    this.write([
+      `UPDATE profiles SET name = ?, settings = ?, updated_at = ? WHERE id = ?`,
+      [name, settings, Date.now(), id],
+    ]);
+    return this.getProfile(id);
+  }
+
+  deleteProfile(id: number): void {
+    this.write(
+      ['UPDATE books SET profile_id = NULL WHERE profile_id = ?', [id]],
+      ['DELETE FROM profiles WHERE id = ?', [id]]
+    );
+  }
+
   close(): void {
-    if (this.saveTimer) {
-      clearTimeout(this.saveTimer);
+    if (this.snapshotTimer) {
+      clearTimeout(this.snapshotTimer);
     }
-    this.saveSync();
+    this.writeSnapshot();
     this.db.close();
   }
 }
@@ -0,0 +1,181 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ensureStorageDirs, getInboxDirs } from './config';
+import type { AppConfig } from './config';
+import { DB } from './db';
+import { watchInbox } from './inbox';
+import type { InboxWatcher } from './inbox';
+import { testConfig } from './test/helpers';
+import { ensureBookContent } from './utils/book-content';
+
+// fs.watch can be swapped for a watcher that never fires, to check what
+// the inbox does when change events go missing
+const watchEvents = vi.hoisted(() => ({ muted: false }));
+vi.mock('fs', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs')>();
+  const watch = (...args: Parameters<typeof actual.watch>) => {
+    if (!watchEvents.muted) return actual.watch(...args);
+    return Object.assign(new EventEmitter(), { close: () => {} });
+  };
+  return { ...actual, watch };
+});
+
+const SETTLE_MS = 100;
+const MARKDOWN = '# One\n\nSome text.\n';
+const ENCRYPTED_MOBI = path.join(__dirname, '../src/import/fixtures/encrypted.mobi');
+
+let dir: string;
+let inboxDir: string;
+let config: AppConfig;
+let db: DB;
+let inbox: InboxWatcher | null;
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvpub-inbox-'));
+  inboxDir = path.join(dir, 'inbox');
+  config = testConfig(dir);
+  config.storage.inboxDir = inboxDir;
+  config.uploads.formats = ['epub', 'md', 'mobi'];
+  ensureStorageDirs(config);
+  db = await DB.create(config);
+  inbox = null;
+  watchEvents.muted = false;
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  inbox?.close();
+  // Let extractions the imports started finish before removing their files
+  await Promise.all(db.getAllBooks().map(book => ensureBookContent(config, book).catch(() => {})));
+  db.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function start(): void {
+  inbox = watchInbox(db, config, inboxDir, SETTLE_MS);
+}
+
+function listDir(name: 'done' | 'failed'): string[] {
+  return fs.readdirSync(getInboxDirs(inboxDir)[name]).sort();
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  expect(condition()).toBe(true);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('watchInbox', () => {
+  it('imports files already in the inbox at startup', async () => {
+    fs.writeFileSync(path.join(inboxDir, 'book.md'), MARKDOWN);
+    start();
+
+    await waitFor(() => listDir('done').length === 1);
+    expect(listDir('done')).toEqual(['book.md']);
+    expect(db.getAllBooks().map(book => book.filename)).toEqual(['book.md']);
+    expect(fs.readdirSync(config.storage.booksDir).filter(name => name.startsWith('.'))).toEqual([]);
+  });
+
+  it('imports files dropped in while watching', async () => {
+    start();
+    fs.writeFileSync(path.join(inboxDir, 'book.md'), MARKDOWN);
+
+    await waitFor(() => listDir('done').length === 1);
+    expect(db.getAllBooks()).toHaveLength(1);
+  });
+
+  it('ignores hidden files until they are renamed', async () => {
+    start();
+    fs.writeFileSync(path.join(inboxDir, '.book.md.partial'), MARKDOWN);
+    await sleep(SETTLE_MS * 3);
+    expect(db.getAllBooks()).toHaveLength(0);
+
+    fs.renameSync(path.join(inboxDir, '.book.md.partial'), path.join(inboxDir, 'book.md'));
+    await waitFor(() => listDir('done').length === 1);
+    expect(db.getAllBooks()).toHaveLength(1);
+  });
+
+  it('moves a book already in the library to done without adding it again', async () => {
+    fs.writeFileSync(path.join(inboxDir, 'book.md'), MARKDOWN);
+    fs.writeFileSync(path.join(inboxDir, 'copy.md'), MARKDOWN);
+    start();
+
+    await waitFor(() => listDir('done').length === 2);
+    expect(listDir('done')).toEqual(['book.md', 'copy.md']);
+    expect(db.getAllBooks()).toHaveLength(1);
+  });
+
+  it('moves unsupported formats and unreadable books to failed', async () => {
+    fs.writeFileSync(path.join(inboxDir, 'notes.pdf'), '%PDF-1.4');
+    fs.copyFileSync(ENCRYPTED_MOBI, path.join(inboxDir, 'locked.mobi'));
+    start();
+
+    await waitFor(() => listDir('failed').length === 2);
+    expect(listDir('failed')).toEqual(['locked.mobi', 'notes.pdf']);
+    expect(listDir('done')).toEqual([]);
+    expect(db.getAllBooks()).toHaveLength(0);
+    expect(fs.readdirSync(config.storage.booksDir)).toEqual([]);
+  });
+
+  it('numbers files rather than overwrite earlier ones of the same name', async () => {
+    const { done } = getInboxDirs(inboxDir);
+    fs.writeFileSync(path.join(done, 'book.md'), 'earlier');
+    fs.writeFileSync(path.join(done, 'book-1.md'), 'earlier still');
+    fs.writeFileSync(path.join(inboxDir, 'book.md'), MARKDOWN);
+    start();
+
+    await waitFor(() => listDir('done').length === 3);
+    expect(listDir('done')).toEqual(['book-1.md', 'book-2.md', 'book.md']);
+    expect(fs.readFileSync(path.join(done, 'book.md'), 'utf-8')).toBe('earlier');
+    expect(fs.readFileSync(path.join(done, 'book-2.md'), 'utf-8')).toBe(MARKDOWN);
+  });
+
+  it('waits for a file to stop changing even without watch events', async () => {
+    watchEvents.muted = true;
+    const filePath = path.join(inboxDir, 'book.md');
+    fs.writeFileSync(filePath, '# One\n');
+    start();
+
+    // Keep writing through several settle periods, unseen by the watcher
+    for (let i = 0; i < 6; i++) {
+      await sleep(SETTLE_MS / 2);
+      fs.appendFileSync(filePath, `\nParagraph ${i}.\n`);
+    }
+    expect(db.getAllBooks()).toHaveLength(0);
+
+    await waitFor(() => listDir('done').length === 1);
+    const [book] = db.getAllBooks();
+    expect(fs.readFileSync(path.join(config.storage.booksDir, `${book.hash}.md`), 'utf-8')).toContain('Paragraph 5.');
+  });
+
+  it('keeps importing after one import fails unexpectedly', async () => {
+    fs.writeFileSync(path.join(inboxDir, 'a.md'), MARKDOWN);
+    start();
+    // Cleaning up after the first import throws
+    const rm = vi.spyOn(fs.promises, 'rm').mockRejectedValueOnce(new Error('disk gone'));
+    await waitFor(() => rm.mock.calls.length > 0);
+
+    fs.writeFileSync(path.join(inboxDir, 'b.md'), '# Two\n\nOther text.\n');
+    await waitFor(() => listDir('done').includes('b.md'));
+    expect(db.getAllBooks().map(book => book.filename).sort()).toEqual(['a.md', 'b.md']);
+  });
+
+  it('stops importing once closed', async () => {
+    start();
+    fs.writeFileSync(path.join(inboxDir, 'book.md'), MARKDOWN);
+    await sleep(SETTLE_MS / 4);
+    inbox!.close();
+
+    await sleep(SETTLE_MS * 3);
+    expect(db.getAllBooks()).toHaveLength(0);
+    expect(fs.existsSync(path.join(inboxDir, 'book.md'))).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getInboxDirs, type AppConfig } from './config';
+import type { DB } from './db';
+import { UnsupportedBookError, getBookFormat } from '../src/import/formats';
+import { hashFile } from './utils/hash';
+import { storeBook } from './utils/book-import';
+import { createTempPath } from './utils/upload-storage';
+
+// Books dropped into the inbox folder (by hand, Syncthing, rsync, ...) are
+// imported the same way as uploads, then moved to done/ or failed/. The
+// folder is scanned at startup and watched from then on.
+
+// A file must go this long without changing before it's imported, so
+// copies still in progress aren't picked up half-written
+const SETTLE_MS = 2000;
+
+export interface InboxWatcher {
+  // Stop watching and drop imports that haven't started
+  close(): void;
+}
+
+export function watchInbox(db: DB, config: AppConfig, inboxDir: string, settleMs = SETTLE_MS): InboxWatcher {
+  const dirs = getInboxDirs(inboxDir);
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Imports run one at a time
+  let queue = Promise.resolve();
+  let closed = false;
+
+  const schedule = (name: string) => {
+    // Sync tools write partial files under hidden names and rename them when done
+    if (name.startsWith('.') || closed) return;
+
+    clearTimeout(timers.get(name));
+    // Watch events can be missed or coalesced (network filesystems, a copy
+    // that stalls), so also check the file itself stayed the same
+    const before = statFile(path.join(inboxDir, name));
+    timers.set(name, setTimeout(() => {
+      timers.delete(name);
+      const after = statFile(path.join(inboxDir, name));
+      if (before?.size !== after?.size || before?.mtimeMs !== after?.mtimeMs) {
+        schedule(name);
+        return;
+      }
+      queue = queue.then(() => importFile(name)).catch((err) => {
+        console.error(`Inbox: failed to import ${name}:`, err);
+      });
+    }, settleMs));
+  };
+
+  async function importFile(name: string): Promise<void> {
+    const filePath = path.join(inboxDir, name);
+    const stat = await fs.promises.stat(filePath).catch(() => null);
+    // Gone already, or a folder (such as done/ and failed/)
+    if (!stat?.isFile()) return;
+
+    const tempPath = createTempPath(config.storage.booksDir);
+    try {
+      const format = getBookFormat(name);
+      if (!format || !config.uploads.formats.includes(format)) {
+        throw new UnsupportedBookError('Not an accepted book format');
+      }
+
+      // Work from a copy, so the hash matches what's stored even if the
+      // original changes underneath
+      await fs.promises.copyFile(filePath, tempPath);
+      const hash = await hashFile(tempPath);
+
+      const existing = db.getBook(hash);
+      if (existing) {
+        console.log(`Inbox: ${name} is already in the library as "${existing.title ?? existing.filename}"`);
+      } else {
+        const book = await storeBook(db, config, { path: tempPath, filename: name, format, hash });
+        console.log(`Inbox: imported ${name} as "${book.title ?? name}"`);
+      }
+      await moveTo(dirs.done, filePath);
+    } catch (err) {
+      console.error(`Inbox: failed to import ${name}:`, err instanceof UnsupportedBookError ? err.message : err);
+      await moveTo(dirs.failed, filePath).catch((moveErr) => {
+        console.error(`Inbox: failed to move ${name} to ${dirs.failed}:`, moveErr);
+      });
+    } finally {
+      // Left over unless it was moved into the library
+      await fs.promises.rm(tempPath, { force: true });
+    }
+  }
+
+  for (const name of fs.readdirSync(inboxDir)) {
+    schedule(name);
+  }
+
+  const watcher = fs.watch(inboxDir, (_event, name) => {
+    if (name) schedule(name);
+  });
+  watcher.on('error', (err) => {
+    console.error('Inbox: watching stopped:', err);
+  });
+
+  console.log(`Watching inbox: ${inboxDir}`);
+
+  return {
+    close() {
+      closed = true;
+      watcher.close();
+      for (const timer of timers.values()) clearTimeout(timer);
+      timers.clear();
+    },
+  };
+}
+
+function statFile(filePath: string): fs.Stats | undefined {
+  return fs.statSync(filePath, { throwIfNoEntry: false });
+}
+
+// Move a processed file without overwriting an earlier one of the same
+// name, numbering it instead. A hard link fails if the target exists where
+// a rename would replace it; filesystems without hard links get an
+// exclusive copy.
+async function moveTo(dir: string, filePath: string): Promise<void> {
+  const { name, ext } = path.parse(filePath);
+  for (let attempt = 0; ; attempt++) {
+    const target = path.join(dir, attempt === 0 ? name + ext : `${name}-${attempt}${ext}`);
+    try {
+      await fs.promises.link(filePath, target).catch((err: NodeJS.ErrnoException) => {
+        if (err.code === 'EEXIST') throw err;
+        return fs.promises.copyFile(filePath, target, fs.constants.COPYFILE_EXCL);
+      });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'EEXIST') continue;
+      throw err;
+    }
+    await fs.promises.unlink(filePath);
+    return;
+  }
+}
@@ -4,9 +4,11 @@ import * as fs from 'fs';
 import { fileURLToPath } from 'url';
 import { loadConfig, ensureStorageDirs } from './config';
 import { DB } from './db';
+import { watchInbox } from './inbox';
 import { createBooksRouter } from './routes/books';
 import { createCheckpointsRouter } from './routes/checkpoints';
 import { createStatsRouter } from './routes/stats';
+import { createProfilesRouter } from './routes/profiles';
 
 async function main() {
   const config = loadConfig();
@@ -22,6 +24,10 @@ async function main() {
   app.use('/api/books', createBooksRouter(db, config));
   app.use('/api/books/:hash/checkpoints', createCheckpointsRouter(db));
   app.use('/api/books/:hash/stats', createStatsRouter(db));
+  app.use('/api/profiles', createProfilesRouter(db));
+
+  // Import books dropped into the inbox folder
+  const inbox = config.storage.inboxDir ? watchInbox(db, config, config.storage.inboxDir) : null;
 
   const isDev = process.env.NODE_ENV !== 'production';
 
@@ -68,6 +74,7 @@ async function main() {
     } else {
       console.error(`\nError starting server:`, err);
     }
+    inbox?.close();
     db.close();
     process.exit(1);
   });
@@ -75,11 +82,13 @@ async function main() {
   // Graceful shutdown
   process.on('SIGINT', () => {
     console.log('\nShutting down...');
+    inbox?.close();
     db.close();
     process.exit(0);
   });
 
   process.on('SIGTERM', () => {
+    inbox?.close();
     db.close();
     process.exit(0);
   });
@@ -0,0 +1,192 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import initSqlJs from 'sql.js';
+import type { Database as SqlJsDatabase, SqlJsStatic } from 'sql.js';
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { DB } from './db';
+import { MIGRATIONS, MigrationError, SCHEMA_VERSION, getSchemaVersion } from './migrations';
+import { testConfig } from './test/helpers';
+
+let SQL: SqlJsStatic;
+let dir: string;
+let dbPath: string;
+
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvpub-migrations-'));
+  dbPath = testConfig(dir).storage.dbPath;
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Every column of every table, to compare schemas
+function schemaOf(db: SqlJsDatabase): unknown[][] {
+  return db.exec(`
+    SELECT m.name, p.name, p.type, p."notnull", p.dflt_value
+    FROM sqlite_master m, pragma_table_info(m.name) p
+    WHERE m.type = 'table'
+    ORDER BY m.name, p.name
+  `)[0].values;
+}
+
+function readFile(filePath: string): SqlJsDatabase {
+  return new SQL.Database(fs.readFileSync(filePath));
+}
+
+async function freshSchema(): Promise<unknown[][]> {
+  const freshDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvpub-fresh-'));
+  try {
+    (await DB.create(testConfig(freshDir))).close();
+    return schemaOf(readFile(testConfig(freshDir).storage.dbPath));
+  } finally {
+    fs.rmSync(freshDir, { recursive: true, force: true });
+  }
+}
+
+// A book with two checkpoints and a reading session, in the columns every
+// schema has had
+function seed(db: SqlJsDatabase): void {
+  db.run(`
+    INSERT INTO books (hash, filename, title, author, added_at) VALUES ('h1', 'a.epub', 'A', 'Ann', 1);
+    INSERT INTO checkpoints (book_hash, chapter_index, paragraph_index, word_index, wpm, created_at)
+      VALUES ('h1', 1, 2, 3, 250, 10), ('h1', 4, 5, 6, 350, 20);
+    INSERT INTO stats (book_hash, session_start, session_end, words_read) VALUES ('h1', 0, 1000, 42);
+  `);
+}
+
+// A database as a versioned rsvpub left it
+function versionedFixture(version: number): SqlJsDatabase {
+  const db = new SQL.Database();
+  for (const migration of MIGRATIONS.slice(0, version)) {
+    migration.up(db);
+  }
+  db.run(`PRAGMA user_version = ${version}`);
+  seed(db);
+  return db;
+}
+
+// Databases from before schema versioning (all at version 0), by the
+// last change they had
+const INITIAL_TABLES = `
+  CREATE TABLE books (id INTEGER PRIMARY KEY, hash TEXT UNIQUE NOT NULL, filename TEXT NOT NULL,
+    title TEXT, author TEXT, added_at INTEGER NOT NULL, last_read_at INTEGER);
+  CREATE TABLE checkpoints (id INTEGER PRIMARY KEY, book_hash TEXT NOT NULL, chapter_index INTEGER NOT NULL,
+    paragraph_index INTEGER NOT NULL, word_index INTEGER NOT NULL, wpm INTEGER NOT NULL, created_at INTEGER NOT NULL);
+  CREATE TABLE stats (id INTEGER PRIMARY KEY, book_hash TEXT NOT NULL, session_start INTEGER NOT NULL,
+    session_end INTEGER NOT NULL, words_read INTEGER NOT NULL, avg_wpm REAL);
+`;
+const LEGACY_CHANGES = [
+  ['checkpoints and stats', ''],
+  ['book positions', `
+    ALTER TABLE checkpoints ADD COLUMN chapter_title TEXT;
+    ALTER TABLE books ADD COLUMN position_chapter INTEGER DEFAULT 0;
+    ALTER TABLE books ADD COLUMN position_paragraph INTEGER DEFAULT 0;
+    ALTER TABLE books ADD COLUMN position_word INTEGER DEFAULT 0;
+    ALTER TABLE books ADD COLUMN position_wpm INTEGER DEFAULT 300;
+    ALTER TABLE books ADD COLUMN position_chapter_title TEXT;
+  `],
+  ['timing profiles', `
+    CREATE TABLE profiles (id INTEGER PRIMARY KEY, name TEXT UNIQUE NOT NULL, settings TEXT NOT NULL,
+      created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL);
+    ALTER TABLE books ADD COLUMN profile_id INTEGER REFERENCES profiles(id);
+  `],
+  ['book formats', `ALTER TABLE books ADD COLUMN format TEXT NOT NULL DEFAULT 'epub';`],
+  ['position anchors', `ALTER TABLE books ADD COLUMN position_anchor TEXT;`],
+] as const;
+
+function legacyFixture(changes: number): SqlJsDatabase {
+  const db = new SQL.Database();
+  db.run(INITIAL_TABLES);
+  for (const [, sql] of LEGACY_CHANGES.slice(0, changes + 1)) {
+    if (sql) db.run(sql);
+  }
+  seed(db);
+  return db;
+}
+
+describe('database migrations', () => {
+  // Version 0 is the unversioned databases below
+  it.each(
+    Array.from({ length: SCHEMA_VERSION - 1 }, (_, i) => [i + 1])
+  )('upgrades a version %i database to the latest schema', async version => {
+    fs.writeFileSync(dbPath, versionedFixture(version).export());
+
+    const db = await DB.create(testConfig(dir));
+    try {
+      expect(db.getBook('h1')).toMatchObject({ title: 'A', author: 'Ann', format: 'epub' });
+      expect(db.getAggregateStats('h1').totalWordsRead).toBe(42);
+      // Positions were introduced by migration 3, starting from the latest checkpoint
+      if (version < 3) {
+        expect(db.getPosition('h1')).toMatchObject({ chapterIndex: 4, paragraphIndex: 5, wordIndex: 6, wpm: 350 });
+      }
+    } finally {
+      db.close();
+    }
+
+    const upgraded = readFile(dbPath);
+    expect(getSchemaVersion(upgraded)).toBe(SCHEMA_VERSION);
+    expect(schemaOf(upgraded)).toEqual(await freshSchema());
+
+    const backup = readFile(`${dbPath}.v${version}.bak`);
+    expect(getSchemaVersion(backup)).toBe(version);
+    expect(backup.exec(`SELECT title FROM books`)[0].values).toEqual([['A']]);
+  });
+
+  it.each(LEGACY_CHANGES.map(([name], i) => [name, i]))(
+    'upgrades an unversioned database with %s',
+    async (_name, changes) => {
+      fs.writeFileSync(dbPath, legacyFixture(changes).export());
+
+      const db = await DB.create(testConfig(dir));
+      try {
+        expect(db.getBook('h1')).toMatchObject({ title: 'A', format: 'epub' });
+        expect(db.getPosition('h1')).toMatchObject({ chapterIndex: 4, paragraphIndex: 5, wordIndex: 6, wpm: 350 });
+        expect(db.getAggregateStats('h1').totalWordsRead).toBe(42);
+      } finally {
+        db.close();
+      }
+
+      expect(schemaOf(readFile(dbPath))).toEqual(await freshSchema());
+      expect(fs.existsSync(`${dbPath}.v0.bak`)).toBe(true);
+    }
+  );
+
+  it('refuses a database from a newer version, keeping it and earlier backups', async () => {
+    fs.writeFileSync(dbPath, versionedFixture(2).export());
+    (await DB.create(testConfig(dir))).close();
+    const backup = fs.readFileSync(`${dbPath}.v2.bak`);
+
+    // As left by a later rsvpub with more migrations
+    const newer = readFile(dbPath);
+    newer.run(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+    const newerBytes = newer.export();
+    fs.writeFileSync(dbPath, newerBytes);
+
+    await expect(DB.create(testConfig(dir))).rejects.toThrow(MigrationError);
+    expect(fs.readFileSync(dbPath).equals(Buffer.from(newerBytes))).toBe(true);
+    expect(fs.readFileSync(`${dbPath}.v2.bak`).equals(backup)).toBe(true);
+    expect(fs.readdirSync(dir).sort()).toEqual(['rsvpub.db', 'rsvpub.db.v2.bak']);
+  });
+
+  it('leaves the file as it was when a migration fails', async () => {
+    // "books" as a view can't be altered
+    const broken = new SQL.Database();
+    broken.run(`
+      CREATE TABLE b (hash TEXT);
+      CREATE VIEW books AS SELECT hash FROM b;
+      CREATE TABLE checkpoints (x);
+      CREATE TABLE stats (y);
+    `);
+    const brokenBytes = broken.export();
+    fs.writeFileSync(dbPath, brokenBytes);
+
+    await expect(DB.create(testConfig(dir))).rejects.toThrow(MigrationError);
+    expect(fs.readFileSync(dbPath).equals(Buffer.from(brokenBytes))).toBe(true);
+  });
+});
@@ -0,0 +1,184 @@
+import type { Database as SqlJsDatabase } from 'sql.js';
+
+// Schema changes, applied in order. A database's version (PRAGMA
+// user_version) is the number of migrations applied to it. Each migration
+// runs in a transaction together with the version bump, so a failure
+// leaves the database as it was. Append new migrations to the end; never
+// edit or reorder ones that have shipped.
+//
+// Databases from before versioning are at version 0 but already have some
+// of these changes, so the column additions skip columns that exist.
+
+export interface Migration {
+  name: string;
+  up(db: SqlJsDatabase): void;
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+function hasColumn(db: SqlJsDatabase, table: string, column: string): boolean {
+  const stmt = db.prepare(`SELECT 1 FROM pragma_table_info(?) WHERE name = ?`);
+  stmt.bind([table, column]);
+  const found = stmt.step();
+  stmt.free();
+  return found;
+}
+
+function addColumn(db: SqlJsDatabase, table: string, column: string, definition: string): void {
+  if (!hasColumn(db, table, column)) {
+    db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    name: 'initial-schema',
+    up(db) {
+      db.run(`
+        -- Books table (identified by hash)
+        CREATE TABLE IF NOT EXISTS books (
+          id INTEGER PRIMARY KEY,
+          hash TEXT UNIQUE NOT NULL,
+          filename TEXT NOT NULL,
+          title TEXT,
+          author TEXT,
+          added_at INTEGER NOT NULL,
+          last_read_at INTEGER
+        );
+
+        -- Reading checkpoints (history)
+        CREATE TABLE IF NOT EXISTS checkpoints (
+          id INTEGER PRIMARY KEY,
+          book_hash TEXT NOT NULL,
+          chapter_index INTEGER NOT NULL,
+          paragraph_index INTEGER NOT NULL,
+          word_index INTEGER NOT NULL,
+          wpm INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          FOREIGN KEY (book_hash) REFERENCES books(hash)
+        );
+
+        -- Reading stats
+        CREATE TABLE IF NOT EXISTS stats (
+          id INTEGER PRIMARY KEY,
+          book_hash TEXT NOT NULL,
+          session_start INTEGER NOT NULL,
+          session_end INTEGER NOT NULL,
+          words_read INTEGER NOT NULL,
+          avg_wpm REAL,
+          FOREIGN KEY (book_hash) REFERENCES books(hash)
+        );
+
+        -- Indexes for common queries
+        CREATE INDEX IF NOT EXISTS idx_checkpoints_book ON checkpoints(book_hash);
+        CREATE INDEX IF NOT EXISTS idx_checkpoints_created ON checkpoints(created_at);
+        CREATE INDEX IF NOT EXISTS idx_stats_book ON stats(book_hash);
+      `);
+    },
+  },
+  {
+    name: 'checkpoint-chapter-title',
+    up(db) {
+      addColumn(db, 'checkpoints', 'chapter_title', 'TEXT');
+    },
+  },
+  {
+    name: 'book-position',
+    up(db) {
+      addColumn(db, 'books', 'position_chapter', 'INTEGER DEFAULT 0');
+      addColumn(db, 'books', 'position_paragraph', 'INTEGER DEFAULT 0');
+      addColumn(db, 'books', 'position_word', 'INTEGER DEFAULT 0');
+      addColumn(db, 'books', 'position_wpm', 'INTEGER DEFAULT 300');
+      addColumn(db, 'books', 'position_chapter_title', 'TEXT');
+
+      // Start books that were never given a position at their latest checkpoint
+      db.run(`
+        UPDATE books SET
+          position_chapter = c.chapter_index,
+          position_paragraph = c.paragraph_index,
+          position_word = c.word_index,
+          position_wpm = c.wpm,
+          position_chapter_title = c.chapter_title
+        FROM (
+          SELECT book_hash, chapter_index, paragraph_index, word_index, wpm, chapter_title,
+            ROW_NUMBER() OVER (PARTITION BY book_hash ORDER BY created_at DESC) AS row_number
+          FROM checkpoints
+        ) AS c
+        WHERE c.book_hash = books.hash AND c.row_number = 1
+          AND position_chapter = 0 AND position_paragraph = 0 AND position_word = 0
+      `);
+    },
+  },
+  {
+    name: 'timing-profiles',
+    up(db) {
+      db.run(`
+        -- Named timing profiles
+        CREATE TABLE IF NOT EXISTS profiles (
+          id INTEGER PRIMARY KEY,
+          name TEXT UNIQUE NOT NULL,
+          settings TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+      addColumn(db, 'books', 'profile_id', 'INTEGER REFERENCES profiles(id)');
+    },
+  },
+  {
+    name: 'book-format',
+    up(db) {
+      // Books before this were all EPUBs
+      addColumn(db, 'books', 'format', `TEXT NOT NULL DEFAULT 'epub'`);
+    },
+  },
+  {
+    name: 'position-anchor',
+    up(db) {
+      addColumn(db, 'books', 'position_anchor', 'TEXT');
+    },
+  },
+  {
+    name: 'journal',
+    up(db) {
+      db.run(`
+        -- Last journal entry included in the database file
+        CREATE TABLE IF NOT EXISTS journal (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          seq INTEGER NOT NULL
+        );
+        INSERT OR IGNORE INTO journal (id, seq) VALUES (1, 0);
+      `);
+    },
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export function getSchemaVersion(db: SqlJsDatabase): number {
+  return db.exec('PRAGMA user_version')[0].values[0][0] as number;
+}
+
+// Bring the database up to SCHEMA_VERSION
+export function migrate(db: SqlJsDatabase): void {
+  for (let version = getSchemaVersion(db); version < SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    db.run('BEGIN');
+    try {
+      migration.up(db);
+      db.run(`PRAGMA user_version = ${version + 1}`);
+      db.run('COMMIT');
+    } catch (err) {
+      db.run('ROLLBACK');
+      throw new MigrationError(
+        `Database migration ${version + 1} (${migration.name}) failed: ${err instanceof Error ? err.message : err}`
+      );
+    }
+    console.log(`Applied database migration ${version + 1} (${migration.name})`);
+  }
+}
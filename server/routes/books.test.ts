@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DB } from '../db';
+import { serveRouter, testConfig } from '../test/helpers';
+import type { TestServer } from '../test/helpers';
+import { closeBookArchive, ensureBookContent, getBookPath, getContentPath } from '../utils/book-content';
+import { createBooksRouter } from './books';
+import type { AppConfig } from '../config';
+import type { ProcessedBook } from '../../src/types';
+import { buildEpub, xhtml } from '../../src/test/helpers';
+
+let dir: string;
+let config: AppConfig;
+let db: DB;
+let server: TestServer;
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvpub-books-'));
+  config = testConfig(dir);
+  config.uploads.formats = ['epub', 'md'];
+  fs.mkdirSync(config.storage.booksDir);
+  fs.mkdirSync(config.storage.cacheDir);
+  db = await DB.create(config);
+  server = await serveRouter('/api/books', createBooksRouter(db, config));
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await server.close();
+  db.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const MARKDOWN = '# One\n\nFirst chapter “text”.\n\n# Two\n\nSecond chapter — naïve text.\n';
+
+function upload(name: string, data: BlobPart, type = 'application/octet-stream'): Promise<Response> {
+  const form = new FormData();
+  form.append('file', new Blob([data], { type }), name);
+  return fetch(server.url, { method: 'POST', body: form });
+}
+
+async function addBook(name: string, data: BlobPart): Promise<string> {
+  const res = await upload(name, data);
+  expect(res.status).toBe(201);
+  const { hash } = await res.json();
+  // Wait for the extraction the upload started
+  await ensureBookContent(config, db.getBook(hash)!);
+  return hash;
+}
+
+describe('book content', () => {
+  it('serves single chapters from the cached book', async () => {
+    const hash = await addBook('book.md', MARKDOWN);
+
+    const full = await (await fetch(`${server.url}/${hash}/content`)).json() as ProcessedBook;
+    expect(full.chapters.map(chapter => chapter.title)).toEqual(['One', 'Two']);
+    expect(full.title).toBeTruthy();
+
+    for (const [index, chapter] of full.chapters.entries()) {
+      const res = await fetch(`${server.url}/${hash}/content?chapter=${index}`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toMatch(/^application\/json/);
+      expect(await res.json()).toEqual(chapter);
+    }
+    expect(JSON.parse(fs.readFileSync(getContentPath(config, hash), 'utf-8'))).toEqual(full);
+  });
+
+  it('returns 404 for chapters the book does not have', async () => {
+    const hash = await addBook('book.md', MARKDOWN);
+    for (const chapter of ['2', '-1', 'x']) {
+      expect((await fetch(`${server.url}/${hash}/content?chapter=${chapter}`)).status).toBe(404);
+    }
+  });
+
+  it('only records a read when the whole book is fetched', async () => {
+    const hash = await addBook('book.md', MARKDOWN);
+    expect(db.getBook(hash)!.last_read_at).toBeNull();
+
+    await (await fetch(`${server.url}/${hash}/content?chapter=0`)).json();
+    expect(db.getBook(hash)!.last_read_at).toBeNull();
+
+    await (await fetch(`${server.url}/${hash}/content`)).json();
+    expect(db.getBook(hash)!.last_read_at).not.toBeNull();
+  });
+});
+
+describe('book images', () => {
+  const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3]);
+  const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 4, 5, 6]);
+
+  async function addEpub(): Promise<string> {
+    return addBook('book.epub', await buildEpub([
+      { href: 'chapter.xhtml', mediaType: 'application/xhtml+xml', content: xhtml('<p>Text.</p><img src="images/a.png" alt=""/><img src="b.jpg" alt=""/>') },
+      { href: 'images/a.png', mediaType: 'image/png', content: PNG },
+      { href: 'b.jpg', mediaType: 'image/jpeg', content: JPEG },
+    ]));
+  }
+
+  function image(hash: string, imagePath: string): Promise<Response> {
+    return fetch(`${server.url}/${hash}/image?path=${encodeURIComponent(imagePath)}`);
+  }
+
+  it('serves manifest images with their media type', async () => {
+    const hash = await addEpub();
+
+    const png = await image(hash, 'OEBPS/images/a.png');
+    expect(png.status).toBe(200);
+    expect(png.headers.get('content-type')).toBe('image/png');
+    expect(new Uint8Array(await png.arrayBuffer())).toEqual(PNG);
+
+    const jpeg = await image(hash, 'OEBPS/b.jpg');
+    expect(jpeg.headers.get('content-type')).toBe('image/jpeg');
+    expect(new Uint8Array(await jpeg.arrayBuffer())).toEqual(JPEG);
+  });
+
+  it('refuses files that are not manifest images', async () => {
+    const hash = await addEpub();
+    expect((await image(hash, 'OEBPS/chapter.xhtml')).status).toBe(404);
+    expect((await image(hash, 'OEBPS/content.opf')).status).toBe(404);
+    expect((await image(hash, 'OEBPS/missing.png')).status).toBe(404);
+    expect((await fetch(`${server.url}/${hash}/image`)).status).toBe(400);
+    expect((await image('0'.repeat(64), 'OEBPS/b.jpg')).status).toBe(404);
+  });
+
+  it('reads the EPUB once for a run of image requests', async () => {
+    const hash = await addEpub();
+    const bookPath = getBookPath(config, hash, 'epub');
+    // Books are stored by hash, so an earlier test may have left it open
+    closeBookArchive(hash);
+    const readFile = vi.spyOn(fs.promises, 'readFile');
+
+    const responses = await Promise.all(
+      ['OEBPS/images/a.png', 'OEBPS/b.jpg', 'OEBPS/images/a.png'].map(imagePath => image(hash, imagePath))
+    );
+    expect(responses.map(res => res.status)).toEqual([200, 200, 200]);
+    await image(hash, 'OEBPS/b.jpg');
+    expect(readFile.mock.calls.filter(([file]) => file === bookPath)).toHaveLength(1);
+  });
+
+  it('has no images for other formats', async () => {
+    const hash = await addBook('book.md', MARKDOWN);
+    expect((await image(hash, 'OEBPS/b.jpg')).status).toBe(404);
+  });
+});
+
+describe('uploads', () => {
+  const ENCRYPTED_MOBI = fs.readFileSync(path.join(__dirname, '../../src/import/fixtures/encrypted.mobi'));
+
+  // Serve the router again with different upload settings
+  async function restart(uploads: Partial<AppConfig['uploads']>): Promise<void> {
+    await server.close();
+    config.uploads = { ...config.uploads, ...uploads };
+    server = await serveRouter('/api/books', createBooksRouter(db, config));
+  }
+
+  function tempFiles(): string[] {
+    return fs.readdirSync(config.storage.booksDir).filter(name => name.startsWith('.upload-'));
+  }
+
+  async function waitFor(condition: () => boolean): Promise<void> {
+    for (let i = 0; i < 100 && !condition(); i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    expect(condition()).toBe(true);
+  }
+
+  it('stores a new book and reports a repeat upload as existing', async () => {
+    const first = await upload('book.md', MARKDOWN);
+    expect(first.status).toBe(201);
+    const { hash } = await first.json();
+    expect(fs.existsSync(getBookPath(config, hash, 'md'))).toBe(true);
+
+    const again = await upload('copy.md', MARKDOWN);
+    expect(again.status).toBe(200);
+    expect(await again.json()).toMatchObject({ hash, filename: 'book.md', alreadyExists: true });
+    expect(tempFiles()).toEqual([]);
+    await ensureBookContent(config, db.getBook(hash)!);
+  });
+
+  it.each([
+    [1536, '1.5 KB'],
+    [300 * 1024, '300 KB'],
+    [Math.floor(2.25 * 1024 * 1024), '2.3 MB'],
+  ])('refuses files over a %i byte limit, naming it as %s', async (maxFileSize, limit) => {
+    await restart({ maxFileSize });
+    const res = await upload('book.md', 'x'.repeat(maxFileSize + 1));
+    expect(res.status).toBe(413);
+    expect((await res.json()).error).toBe(`File is larger than the ${limit} upload limit`);
+    expect(tempFiles()).toEqual([]);
+    expect(db.getAllBooks()).toHaveLength(0);
+  });
+
+  it('refuses formats that are not accepted', async () => {
+    const res = await upload('book.txt', 'Plain text.');
+    expect(res.status).toBe(415);
+    expect((await res.json()).error).toBe('Only EPUB, MD files can be uploaded');
+    expect(db.getAllBooks()).toHaveLength(0);
+  });
+
+  it('refuses books that cannot be read', async () => {
+    await restart({ formats: ['mobi'] });
+    const res = await upload('locked.mobi', ENCRYPTED_MOBI);
+    expect(res.status).toBe(422);
+    expect((await res.json()).error).toMatch(/DRM/i);
+    expect(tempFiles()).toEqual([]);
+    expect(fs.readdirSync(config.storage.booksDir)).toEqual([]);
+    expect(db.getAllBooks()).toHaveLength(0);
+  });
+
+  it('removes the temporary file when an upload is aborted', async () => {
+    const boundary = 'rsvpub-test-boundary';
+    const req = http.request(server.url, {
+      method: 'POST',
+      headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+    });
+    req.on('error', () => {});
+    req.write(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="book.md"\r\n\r\n`);
+    req.write('x'.repeat(64 * 1024));
+
+    await waitFor(() => tempFiles().length === 1);
+    req.destroy();
+    await waitFor(() => tempFiles().length === 0);
+    expect(db.getAllBooks()).toHaveLength(0);
+  });
+});
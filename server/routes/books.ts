@@ -1,28 +1,78 @@
-import { Router } from 'express';
+import { Router, type RequestHandler } from 'express';
 import multer from 'multer';
 import * as fs from 'fs';
 import * as path from 'path';
 import type { DB } from '../db';
 import type { AppConfig } from '../config';
-import { hashBuffer } from '../utils/hash';
-import { extractEpubMetadata } from '../utils/epub-metadata';
+import { hashingStorage, removeTempFiles } from '../utils/upload-storage';
+import { storeBook } from '../utils/book-import';
+import {
+  closeBookArchive,
+  ensureBookContent,
+  getBookPath,
+  getChapterRange,
+  readBookImage,
+  removeBookContent,
+} from '../utils/book-content';
+import type { BookFormat } from '../../src/types';
+import { BOOK_FORMAT_MEDIA_TYPES, UnsupportedBookError, getBookFormat } from '../../src/import/formats';
+
+// An upload in a format that isn't accepted
+class UploadFormatError extends Error {}
+
+// A size limit for messages, e.g. "100 MB", "1.5 MB", "512 KB"
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${Number((bytes / 1024 / 1024).toFixed(1))} MB`;
+  if (bytes >= 1024) return `${Number((bytes / 1024).toFixed(1))} KB`;
+  return `${bytes} bytes`;
+}
+
+// Format of an upload by its name, taking untitled EPUBs by their media type
+function uploadFormat(filename: string, mimetype: string): BookFormat | null {
+  return getBookFormat(filename) ?? (mimetype === 'application/epub+zip' ? 'epub' : null);
+}
 
 export function createBooksRouter(db: DB, config: AppConfig): Router {
   const router = Router();
 
-  // Configure multer for file uploads
+  const { maxFileSize, formats } = config.uploads;
+
+  // Uploads interrupted by a restart leave their temporary files behind
+  removeTempFiles(config.storage.booksDir);
+
+  // Configure multer for file uploads, streamed to disk and hashed on the way
   const upload = multer({
-    storage: multer.memoryStorage(),
-    limits: { fileSize: 100 * 1024 * 1024 }, // 100MB max
+    storage: hashingStorage(config.storage.booksDir),
+    limits: { fileSize: maxFileSize },
     fileFilter: (_req, file, cb) => {
-      if (file.mimetype === 'application/epub+zip' || file.originalname.endsWith('.epub')) {
+      const format = uploadFormat(file.originalname, file.mimetype);
+      if (format !== null && formats.includes(format)) {
         cb(null, true);
       } else {
-        cb(new Error('Only EPUB files are allowed'));
+        cb(new UploadFormatError(`Only ${formats.map(f => f.toUpperCase()).join(', ')} files can be uploaded`));
       }
     },
   });
 
+  // Turn multer's errors into responses the library can show
+  const receiveUpload: RequestHandler = (req, res, next) => {
+    upload.single('file')(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(413).json({
+          error: `File is larger than the ${formatSize(maxFileSize)} upload limit`,
+        });
+      }
+      if (err instanceof UploadFormatError) {
+        return res.status(415).json({ error: err.message });
+      }
+      if (err) {
+        console.error('Failed to receive upload:', err);
+        return res.status(400).json({ error: 'Failed to receive upload' });
+      }
+      next();
+    });
+  };
+
   // GET /api/books - List all books
   router.get('/', (_req, res) => {
     try {
@@ -39,6 +89,8 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
           author: book.author,
           added_at: book.added_at,
           last_read_at: book.last_read_at,
+          profile_id: book.profile_id,
+          format: book.format,
           position,
         };
       });
@@ -50,16 +102,17 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
     }
   });
 
-  // POST /api/books - Upload new EPUB
-  router.post('/', upload.single('file'), async (req, res) => {
+  // POST /api/books - Upload a new book
+  router.post('/', receiveUpload, async (req, res) => {
+    const tempPath = req.file?.path;
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
       }
 
-      const buffer = req.file.buffer;
-      const hash = hashBuffer(buffer);
+      const hash = req.file.hash!;
       const filename = req.file.originalname;
+      const format = uploadFormat(filename, req.file.mimetype)!;
 
       // Check if book already exists
       const existing = db.getBook(hash);
@@ -74,25 +127,24 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
           author: existing.author,
           added_at: existing.added_at,
           last_read_at: existing.last_read_at,
+          profile_id: existing.profile_id,
+          format: existing.format,
           alreadyExists: true,
           position,
         });
       }
 
-      // Extract metadata from EPUB
-      const metadata = await extractEpubMetadata(buffer);
-
-      // Save file to disk
-      const filePath = path.join(config.storage.booksDir, `${hash}.epub`);
-      fs.writeFileSync(filePath, buffer);
-
-      // Add to database with extracted metadata
-      const book = db.addBook(hash, filename, metadata.title ?? undefined, metadata.author ?? undefined);
-
+      const book = await storeBook(db, config, { path: req.file.path, filename, format, hash });
       res.status(201).json(book);
     } catch (err) {
+      if (err instanceof UnsupportedBookError) {
+        return res.status(422).json({ error: err.message });
+      }
       console.error('Failed to upload book:', err);
       res.status(500).json({ error: 'Failed to upload book' });
+    } finally {
+      // Left over unless it was moved into place
+      if (tempPath) fs.rmSync(tempPath, { force: true });
     }
   });
 
@@ -115,6 +167,8 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
         author: book.author,
         added_at: book.added_at,
         last_read_at: book.last_read_at,
+        profile_id: book.profile_id,
+        format: book.format,
         position,
         stats,
       });
@@ -142,7 +196,31 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
     }
   });
 
-  // GET /api/books/:hash/file - Download EPUB file
+  // PUT /api/books/:hash/profile - Set (or clear) the book's default timing profile
+  router.put('/:hash/profile', (req, res) => {
+    try {
+      const book = db.getBook(req.params.hash);
+      if (!book) {
+        return res.status(404).json({ error: 'Book not found' });
+      }
+
+      const { profileId } = req.body;
+      if (profileId !== null && typeof profileId !== 'number') {
+        return res.status(400).json({ error: 'Invalid profile id' });
+      }
+      if (profileId !== null && !db.getProfile(profileId)) {
+        return res.status(404).json({ error: 'Profile not found' });
+      }
+
+      db.setBookProfile(book.hash, profileId);
+      res.json({ profileId });
+    } catch (err) {
+      console.error('Failed to set book profile:', err);
+      res.status(500).json({ error: 'Failed to set book profile' });
+    }
+  });
+
+  // GET /api/books/:hash/file - Download the uploaded file
   router.get('/:hash/file', (req, res) => {
     try {
       const book = db.getBook(req.params.hash);
@@ -150,7 +228,7 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
         return res.status(404).json({ error: 'Book not found' });
       }
 
-      const filePath = path.join(config.storage.booksDir, `${book.hash}.epub`);
+      const filePath = getBookPath(config, book.hash, book.format);
       if (!fs.existsSync(filePath)) {
         return res.status(404).json({ error: 'Book file not found' });
       }
@@ -158,7 +236,7 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
       // Update last read timestamp
       db.updateLastRead(book.hash);
 
-      res.setHeader('Content-Type', 'application/epub+zip');
+      res.setHeader('Content-Type', BOOK_FORMAT_MEDIA_TYPES[book.format]);
       res.setHeader('Content-Disposition', `attachment; filename="${book.filename}"`);
       fs.createReadStream(filePath).pipe(res);
     } catch (err) {
@@ -167,6 +245,76 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
     }
   });
 
+  // GET /api/books/:hash/content - Extracted text as ProcessedBook JSON
+  // (?chapter=N returns just that chapter)
+  router.get('/:hash/content', async (req, res) => {
+    try {
+      const book = db.getBook(req.params.hash);
+      if (!book) {
+        return res.status(404).json({ error: 'Book not found' });
+      }
+
+      if (!fs.existsSync(getBookPath(config, book.hash, book.format))) {
+        return res.status(404).json({ error: 'Book file not found' });
+      }
+
+      const contentPath = await ensureBookContent(config, book);
+
+      // Opening a book fetches it whole; chapter fetches don't count as reads
+      if (req.query.chapter === undefined) {
+        db.updateLastRead(book.hash);
+        return res.sendFile(path.resolve(contentPath));
+      }
+
+      // Stream just the chapter's bytes out of the cached book
+      const index = parseInt(String(req.query.chapter), 10);
+      const range = await getChapterRange(config, book.hash, index);
+      if (!range) {
+        return res.status(404).json({ error: 'Chapter not found' });
+      }
+
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+      fs.createReadStream(contentPath, { start: range[0], end: range[1] - 1 }).pipe(res);
+    } catch (err) {
+      if (err instanceof UnsupportedBookError) {
+        return res.status(422).json({ error: err.message });
+      }
+      console.error('Failed to get book content:', err);
+      res.status(500).json({ error: 'Failed to get book content' });
+    }
+  });
+
+  // GET /api/books/:hash/image?path=... - Image file from inside the EPUB
+  router.get('/:hash/image', async (req, res) => {
+    try {
+      const book = db.getBook(req.params.hash);
+      if (!book) {
+        return res.status(404).json({ error: 'Book not found' });
+      }
+
+      if (!fs.existsSync(getBookPath(config, book.hash, book.format))) {
+        return res.status(404).json({ error: 'Book file not found' });
+      }
+
+      if (typeof req.query.path !== 'string') {
+        return res.status(400).json({ error: 'Missing image path' });
+      }
+
+      const image = await readBookImage(config, book, req.query.path);
+      if (!image) {
+        return res.status(404).json({ error: 'Image not found' });
+      }
+
+      // Books are stored by content hash, so their images never change
+      res.setHeader('Content-Type', image.mediaType);
+      res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+      res.send(Buffer.from(image.data));
+    } catch (err) {
+      console.error('Failed to get book image:', err);
+      res.status(500).json({ error: 'Failed to get book image' });
+    }
+  });
+
   // DELETE /api/books/:hash - Remove book
   router.delete('/:hash', (req, res) => {
     try {
@@ -176,11 +324,14 @@ export function createBooksRouter(db: DB, config: AppConfig): Router {
       }
 
       // Delete file
-      const filePath = path.join(config.storage.booksDir, `${book.hash}.epub`);
+      const filePath = getBookPath(config, book.hash, book.format);
       if (fs.existsSync(filePath)) {
         fs.unlinkSync(filePath);
       }
 
+      removeBookContent(config, book.hash);
+      closeBookArchive(book.hash);
+
       // Delete from database
       db.deleteBook(book.hash);
 
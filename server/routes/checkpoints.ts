@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import type { DB } from '../db';
+import { isPositionAnchor } from '../../src/rsvp/anchor';
 
 interface BookParams {
   hash: string;
@@ -30,7 +31,7 @@ export function createCheckpointsRouter(db: DB): Router {
   router.put('/position', (req: Request<BookParams>, res: Response) => {
     try {
       const { hash } = req.params;
-      const { chapterIndex, paragraphIndex, wordIndex, wpm, chapterTitle } = req.body;
+      const { chapterIndex, paragraphIndex, wordIndex, wpm, chapterTitle, anchor } = req.body;
 
       const book = db.getBook(hash);
       if (!book) {
@@ -41,12 +42,13 @@ export function createCheckpointsRouter(db: DB): Router {
         typeof chapterIndex !== 'number' ||
         typeof paragraphIndex !== 'number' ||
         typeof wordIndex !== 'number' ||
-        typeof wpm !== 'number'
+        typeof wpm !== 'number' ||
+        (anchor !== undefined && !isPositionAnchor(anchor))
       ) {
         return res.status(400).json({ error: 'Invalid position data' });
       }
 
-      db.updatePosition(hash, chapterIndex, paragraphIndex, wordIndex, wpm, chapterTitle);
+      db.updatePosition(hash, chapterIndex, paragraphIndex, wordIndex, wpm, chapterTitle, anchor);
 
       res.json({
         chapterIndex,
@@ -54,6 +56,7 @@ export function createCheckpointsRouter(db: DB): Router {
         wordIndex,
         wpm,
         chapterTitle,
+        anchor,
       });
     } catch (err) {
       console.error('Failed to update position:', err);
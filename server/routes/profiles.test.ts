@@ -0,0 +1,87 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DB } from '../db';
+import { serveRouter, testConfig } from '../test/helpers';
+import type { TestServer } from '../test/helpers';
+import { createProfilesRouter } from './profiles';
+import { DEFAULT_TIMING_SETTINGS } from '../../src/rsvp/timing';
+
+let dir: string;
+let db: DB;
+let server: TestServer;
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rsvpub-profiles-'));
+  db = await DB.create(testConfig(dir));
+  server = await serveRouter('/api/profiles', createProfilesRouter(db));
+});
+
+afterEach(async () => {
+  await server.close();
+  db.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function settings(overrides: Record<string, unknown> = {}, timing: Record<string, unknown> = {}) {
+  return { wpm: 300, fontSize: 3, timing: { ...DEFAULT_TIMING_SETTINGS, ...timing }, ...overrides };
+}
+
+function post(body: unknown): Promise<Response> {
+  return fetch(server.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+describe('profile validation', () => {
+  it.each([
+    ['defaults', settings()],
+    ['range limits', settings({ wpm: 1000, fontSize: 1.5 }, { rampUpStartFactor: 1, rampUpWords: 50 })],
+    ['missing optional timing fields', { wpm: 100, fontSize: 5, timing: { punctuationMultipliers: DEFAULT_TIMING_SETTINGS.punctuationMultipliers } }],
+  ])('accepts %s', async (_, body) => {
+    const res = await post({ name: 'Profile', settings: body });
+    expect(res.status).toBe(201);
+    expect((await res.json()).settings).toEqual(body);
+  });
+
+  it.each([
+    ['wpm below the minimum', settings({ wpm: 50 })],
+    ['wpm above the maximum', settings({ wpm: 1e9 })],
+    ['a string wpm', settings({ wpm: '300' })],
+    ['a huge font size', settings({ fontSize: 1e6 })],
+    ['a missing font size', settings({ fontSize: undefined })],
+    ['a zero ramp-up start', settings({}, { rampUpEnabled: true, rampUpStartFactor: 0 })],
+    ['a ramp-up start above 1', settings({}, { rampUpStartFactor: 1.5 })],
+    ['zero ramp-up words', settings({}, { rampUpWords: 0 })],
+    ['fractional ramp-up words', settings({}, { rampUpWords: 7.5 })],
+    ['a length factor out of range', settings({}, { lengthDelayFactor: 2 })],
+    ['a negative frequency factor', settings({}, { frequencyDelayFactor: -0.1 })],
+    ['a string toggle', settings({}, { rampUpEnabled: 'yes' })],
+    ['a punctuation multiplier out of range', settings({}, { punctuationMultipliers: { ...DEFAULT_TIMING_SETTINGS.punctuationMultipliers, sentence: 10 } })],
+    ['a missing punctuation multiplier', settings({}, { punctuationMultipliers: { sentence: 1 } })],
+    ['missing timing', settings({ timing: undefined })],
+  ])('rejects %s', async (_, body) => {
+    const res = await post({ name: 'Profile', settings: body });
+    expect(res.status).toBe(400);
+    expect(db.getProfiles()).toHaveLength(0);
+  });
+
+  it('rejects invalid settings on update', async () => {
+    const created = await (await post({ name: 'Profile', settings: settings() })).json();
+    const res = await fetch(`${server.url}/${created.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'Profile', settings: settings({}, { rampUpStartFactor: 0 }) }),
+    });
+    expect(res.status).toBe(400);
+    expect(JSON.parse(db.getProfile(created.id)!.settings)).toEqual(settings());
+  });
+
+  it('rejects a missing or blank name', async () => {
+    expect((await post({ settings: settings() })).status).toBe(400);
+    expect((await post({ name: '  ', settings: settings() })).status).toBe(400);
+  });
+});
@@ -0,0 +1,150 @@
+import { Router, Request, Response } from 'express';
+import type { DB, ProfileRecord } from '../db';
+import {
+  DEFAULT_TIMING_SETTINGS,
+  MAX_FONT_SIZE,
+  MAX_WPM,
+  MIN_FONT_SIZE,
+  MIN_WPM,
+  PUNCTUATION_CLASSES,
+  PUNCTUATION_MULTIPLIER_RANGE,
+  TIMING_SETTING_RANGES,
+} from '../../src/rsvp/timing';
+import type { SettingRange } from '../../src/rsvp/timing';
+
+interface ProfileParams {
+  id: string;
+}
+
+function toResponse(profile: ProfileRecord) {
+  return {
+    id: profile.id,
+    name: profile.name,
+    settings: JSON.parse(profile.settings),
+    createdAt: profile.created_at,
+    updatedAt: profile.updated_at,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isInRange(value: unknown, range: SettingRange): value is number {
+  return typeof value === 'number' && value >= range.min && value <= range.max;
+}
+
+// Profiles are applied as they're stored, so check them on the way in
+// against the ranges the settings UI offers; out-of-range values (a zero
+// ramp-up start, say) can stall or race playback. Timing fields other than
+// the multipliers may be missing (the client fills them in from its
+// defaults), but must have the right type and range when given.
+function isValidTiming(timing: unknown): boolean {
+  if (!isObject(timing)) return false;
+
+  const multipliers = timing.punctuationMultipliers;
+  if (!isObject(multipliers)) return false;
+  for (const cls of PUNCTUATION_CLASSES) {
+    if (!isInRange(multipliers[cls], PUNCTUATION_MULTIPLIER_RANGE)) return false;
+  }
+
+  for (const [key, fallback] of Object.entries(DEFAULT_TIMING_SETTINGS)) {
+    const value = timing[key];
+    if (key === 'punctuationMultipliers' || value === undefined) continue;
+    if (typeof value !== typeof fallback) return false;
+  }
+  for (const [key, range] of Object.entries(TIMING_SETTING_RANGES)) {
+    const value = timing[key];
+    if (value !== undefined && !isInRange(value, range)) return false;
+  }
+  if (timing.rampUpWords !== undefined && !Number.isInteger(timing.rampUpWords)) return false;
+  return true;
+}
+
+function validateProfileBody(body: unknown): { name: string; settings: string } | null {
+  const { name, settings } = (body ?? {}) as { name?: unknown; settings?: unknown };
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 100) return null;
+  if (!isObject(settings)) return null;
+  if (!isInRange(settings.wpm, { min: MIN_WPM, max: MAX_WPM })) return null;
+  if (!isInRange(settings.fontSize, { min: MIN_FONT_SIZE, max: MAX_FONT_SIZE })) return null;
+  if (!isValidTiming(settings.timing)) return null;
+  return { name: name.trim(), settings: JSON.stringify(settings) };
+}
+
+export function createProfilesRouter(db: DB): Router {
+  const router = Router();
+
+  // GET /api/profiles - List all profiles
+  router.get('/', (_req, res) => {
+    try {
+      res.json(db.getProfiles().map(toResponse));
+    } catch (err) {
+      console.error('Failed to list profiles:', err);
+      res.status(500).json({ error: 'Failed to list profiles' });
+    }
+  });
+
+  // POST /api/profiles - Create a profile
+  router.post('/', (req, res) => {
+    try {
+      const data = validateProfileBody(req.body);
+      if (!data) {
+        return res.status(400).json({ error: 'Invalid profile data' });
+      }
+
+      if (db.getProfileByName(data.name)) {
+        return res.status(409).json({ error: 'A profile with that name already exists' });
+      }
+
+      const profile = db.createProfile(data.name, data.settings);
+      res.status(201).json(toResponse(profile));
+    } catch (err) {
+      console.error('Failed to create profile:', err);
+      res.status(500).json({ error: 'Failed to create profile' });
+    }
+  });
+
+  // PUT /api/profiles/:id - Update a profile
+  router.put('/:id', (req: Request<ProfileParams>, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (!db.getProfile(id)) {
+        return res.status(404).json({ error: 'Profile not found' });
+      }
+
+      const data = validateProfileBody(req.body);
+      if (!data) {
+        return res.status(400).json({ error: 'Invalid profile data' });
+      }
+
+      const sameName = db.getProfileByName(data.name);
+      if (sameName && sameName.id !== id) {
+        return res.status(409).json({ error: 'A profile with that name already exists' });
+      }
+
+      const profile = db.updateProfile(id, data.name, data.settings)!;
+      res.json(toResponse(profile));
+    } catch (err) {
+      console.error('Failed to update profile:', err);
+      res.status(500).json({ error: 'Failed to update profile' });
+    }
+  });
+
+  // DELETE /api/profiles/:id - Remove a profile (books using it fall back to no default)
+  router.delete('/:id', (req: Request<ProfileParams>, res: Response) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      if (!db.getProfile(id)) {
+        return res.status(404).json({ error: 'Profile not found' });
+      }
+
+      db.deleteProfile(id);
+      res.json({ success: true });
+    } catch (err) {
+      console.error('Failed to delete profile:', err);
+      res.status(500).json({ error: 'Failed to delete profile' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,23 @@
+import { DB } from '../db';
+import { testConfig } from './helpers';
+
+// Child process for the crash test: writes to the database in `argv[2]` as
+// fast as it can until killed, reporting each write once it has returned
+async function main() {
+  const db = await DB.create(testConfig(process.argv[2]));
+  if (!db.getBook('crash')) db.addBook('crash', 'crash.epub', 'Crash', 'Test');
+
+  const start = db.getAggregateStats('crash').totalSessions;
+  for (let i = 1; ; i++) {
+    db.updatePosition('crash', start + i, 0, 0, 300, `Chapter ${start + i}`);
+    db.addSession('crash', i, i + 1, 10);
+    process.send!(start + i);
+    // Let the acknowledgements out
+    if (i % 10 === 0) await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import express from 'express';
+import type { Router } from 'express';
+import type { AddressInfo } from 'net';
+import * as path from 'path';
+import type { AppConfig } from '../config';
+
+// Config keeping everything in `dir`, for tests that open a database
+export function testConfig(dir: string): AppConfig {
+  return {
+    server: { port: 0, host: '127.0.0.1' },
+    storage: {
+      dataDir: dir,
+      booksDir: path.join(dir, 'books'),
+      cacheDir: path.join(dir, 'cache'),
+      dbPath: path.join(dir, 'rsvpub.db'),
+      inboxDir: null,
+    },
+    uploads: { maxFileSize: 1024 * 1024, formats: ['epub'] },
+  };
+}
+
+export interface TestServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+// Serve `router` under `mount` on a free port, for route tests
+export function serveRouter(mount: string, router: Router): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  app.use(mount, router);
+  return new Promise(resolve => {
+    const server = app.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}${mount}`,
+        close: () => new Promise(done => server.close(() => done())),
+      });
+    });
+  });
+}
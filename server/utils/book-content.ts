@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AppConfig } from '../config';
+import type { BookRecord } from '../db';
+import type { BookFormat, ProcessedBook } from '../../src/types';
+import { EpubArchive, createDocumentParser } from '../../src/epub/archive';
+import { TextExtractor, EXTRACTOR_VERSION } from '../../src/epub/extractor';
+import { importDocument } from '../../src/import';
+
+// Extractions in progress, so concurrent requests for a book share one
+const pending = new Map<string, Promise<string>>();
+
+// Uploaded files are stored by content hash, with their format's extension
+export function getBookPath(config: AppConfig, hash: string, format: BookFormat): string {
+  return path.join(config.storage.booksDir, `${hash}.${format}`);
+}
+
+export function getContentPath(config: AppConfig, hash: string): string {
+  return path.join(config.storage.cacheDir, `${hash}.v${EXTRACTOR_VERSION}.json`);
+}
+
+// Byte range [start, end) of each chapter within the content file
+export function getChapterIndexPath(config: AppConfig, hash: string): string {
+  return path.join(config.storage.cacheDir, `${hash}.v${EXTRACTOR_VERSION}.chapters.json`);
+}
+
+// Extract the book's text with the same pipeline the client uses and cache
+// the ProcessedBook JSON, with an index of where each chapter lies in it.
+// Resolves to the content file path.
+export function ensureBookContent(config: AppConfig, book: BookRecord): Promise<string> {
+  const { hash } = book;
+  const contentPath = getContentPath(config, hash);
+  // The index is written last, so its presence means the cache is complete
+  if (fs.existsSync(getChapterIndexPath(config, hash))) {
+    return Promise.resolve(contentPath);
+  }
+
+  let extraction = pending.get(hash);
+  if (!extraction) {
+    extraction = extractBookContent(config, book, contentPath).finally(() => pending.delete(hash));
+    pending.set(hash, extraction);
+  }
+  return extraction;
+}
+
+async function extractBookContent(config: AppConfig, record: BookRecord, contentPath: string): Promise<string> {
+  const buffer = fs.readFileSync(getBookPath(config, record.hash, record.format));
+  const parser = createDocumentParser();
+
+  let book: ProcessedBook;
+  if (record.format === 'epub') {
+    book = await new TextExtractor().extractBook(await EpubArchive.open(buffer, parser));
+  } else {
+    book = importDocument(record.format, buffer, parser, record.filename);
+  }
+
+  const { json, chapterRanges } = serializeBook(book);
+  const indexPath = getChapterIndexPath(config, record.hash);
+  writeFileAtomic(contentPath, json);
+  writeFileAtomic(indexPath, JSON.stringify(chapterRanges));
+
+  // Drop caches from older extractor versions
+  removeBookContent(config, record.hash, [contentPath, indexPath]);
+  return contentPath;
+}
+
+// Write then rename so readers never see a partial file
+function writeFileAtomic(filePath: string, data: string): void {
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, data);
+  fs.renameSync(tempPath, filePath);
+}
+
+// The book as JSON, with the byte range each chapter takes up in it, so a
+// single chapter can be served without reading and parsing the whole book
+function serializeBook(book: ProcessedBook): { json: string; chapterRanges: [number, number][] } {
+  const { chapters, ...rest } = book;
+  const head = JSON.stringify(rest);
+  const parts = [head === '{}' ? '{"chapters":[' : `${head.slice(0, -1)},"chapters":[`];
+  let offset = Buffer.byteLength(parts[0]);
+
+  const chapterRanges: [number, number][] = chapters.map((chapter, i) => {
+    const separator = i > 0 ? ',' : '';
+    const chapterJson = JSON.stringify(chapter);
+    parts.push(separator + chapterJson);
+    const start = offset + separator.length;
+    offset = start + Buffer.byteLength(chapterJson);
+    return [start, offset];
+  });
+
+  parts.push(']}');
+  return { json: parts.join(''), chapterRanges };
+}
+
+// Byte range of a chapter within the content file, or null if the book
+// has no such chapter. Call once ensureBookContent has resolved.
+export async function getChapterRange(config: AppConfig, hash: string, index: number): Promise<[number, number] | null> {
+  const ranges = JSON.parse(await fs.promises.readFile(getChapterIndexPath(config, hash), 'utf-8')) as [number, number][];
+  return ranges[index] ?? null;
+}
+
+// Delete cached content for a book, optionally keeping some files
+export function removeBookContent(config: AppConfig, hash: string, keep: string[] = []): void {
+  for (const file of fs.readdirSync(config.storage.cacheDir)) {
+    const filePath = path.join(config.storage.cacheDir, file);
+    if (file.startsWith(`${hash}.`) && !keep.includes(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  }
+}
+
+export interface BookImage {
+  data: Uint8Array;
+  mediaType: string;
+}
+
+// EPUBs recently opened to serve images, most recently used last. A
+// chapter's images are requested together, so keeping a few archives open
+// saves reading and unzipping the whole book for each one.
+const openArchives = new Map<string, Promise<EpubArchive>>();
+const MAX_OPEN_ARCHIVES = 4;
+
+function openBookArchive(config: AppConfig, book: BookRecord): Promise<EpubArchive> {
+  let archive = openArchives.get(book.hash);
+  if (archive) {
+    openArchives.delete(book.hash);
+  } else {
+    archive = fs.promises.readFile(getBookPath(config, book.hash, book.format))
+      .then(buffer => EpubArchive.open(buffer, createDocumentParser()));
+    const opening = archive;
+    opening.catch(() => {
+      if (openArchives.get(book.hash) === opening) openArchives.delete(book.hash);
+    });
+  }
+  openArchives.set(book.hash, archive);
+
+  for (const hash of openArchives.keys()) {
+    if (openArchives.size <= MAX_OPEN_ARCHIVES) break;
+    openArchives.delete(hash);
+  }
+  return archive;
+}
+
+// Forget a book's open archive, once the book is deleted
+export function closeBookArchive(hash: string): void {
+  openArchives.delete(hash);
+}
+
+// Read an image out of the stored EPUB. Only files the package manifest
+// declares as images are served.
+export async function readBookImage(config: AppConfig, book: BookRecord, resourcePath: string): Promise<BookImage | null> {
+  if (book.format !== 'epub') return null;
+  const archive = await openBookArchive(config, book);
+
+  const item = Array.from(archive.manifest.values()).find(entry => entry.path === resourcePath);
+  if (!item || !item.mediaType.startsWith('image/')) return null;
+
+  const data = await archive.readBinary(item.path);
+  return data ? { data, mediaType: item.mediaType } : null;
+}
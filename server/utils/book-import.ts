@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import type { AppConfig } from '../config';
+import type { BookRecord, DB } from '../db';
+import type { BookFormat } from '../../src/types';
+import { createDocumentParser } from '../../src/epub/archive';
+import { readDocumentMetadata } from '../../src/import';
+import { extractEpubMetadata } from './epub-metadata';
+import { ensureBookContent, getBookPath } from './book-content';
+
+export interface IncomingBook {
+  // Temporary file in booksDir holding the book
+  path: string;
+  filename: string;
+  format: BookFormat;
+  hash: string;
+}
+
+// Add a new book to the library, for uploads and the inbox alike. Reads its
+// metadata (throwing UnsupportedBookError for files that can't be read),
+// moves the file into place and starts extracting its text.
+export async function storeBook(db: DB, config: AppConfig, incoming: IncomingBook): Promise<BookRecord> {
+  const { hash, filename, format } = incoming;
+
+  // Extract metadata from the EPUB package or the document itself
+  const buffer = await fs.promises.readFile(incoming.path);
+  const metadata = format === 'epub'
+    ? await extractEpubMetadata(buffer)
+    : readDocumentMetadata(format, buffer, createDocumentParser());
+
+  // Move the file into place; it's complete, so readers never see it half-written
+  await fs.promises.rename(incoming.path, getBookPath(config, hash, format));
+
+  // Add to database with extracted metadata
+  const book = db.addBook(hash, filename, metadata.title ?? undefined, metadata.author ?? undefined, format);
+
+  // Warm the content cache so the first open doesn't wait on extraction
+  ensureBookContent(config, book).catch((err) => {
+    console.error(`Failed to extract book ${hash}:`, err);
+  });
+
+  return book;
+}
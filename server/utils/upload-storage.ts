@@ -0,0 +1,69 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { StorageEngine } from 'multer';
+
+declare global {
+  namespace Express {
+    namespace Multer {
+      interface File {
+        // SHA-256 of the contents, set by hashingStorage
+        hash?: string;
+      }
+    }
+  }
+}
+
+const TEMP_PREFIX = '.upload-';
+
+// A new temporary file name in `dir` for a book on its way in
+export function createTempPath(dir: string): string {
+  return path.join(dir, `${TEMP_PREFIX}${crypto.randomUUID()}.tmp`);
+}
+
+export function removeTempFiles(dir: string): void {
+  for (const name of fs.readdirSync(dir)) {
+    if (name.startsWith(TEMP_PREFIX)) {
+      fs.rmSync(path.join(dir, name), { force: true });
+    }
+  }
+}
+
+// Multer storage that streams each upload to a temporary file in `dir`,
+// hashing it on the way, so uploads are never held in memory. The caller
+// renames the file into place (or removes it) once it knows the hash.
+export function hashingStorage(dir: string): StorageEngine {
+  return {
+    _handleFile(req, file, cb) {
+      const tempPath = createTempPath(dir);
+      const hash = crypto.createHash('sha256');
+      let size = 0;
+
+      const hasher = new Transform({
+        transform(chunk: Buffer, _encoding, next) {
+          hash.update(chunk);
+          size += chunk.length;
+          next(null, chunk);
+        },
+      });
+
+      // A client that goes away mid-upload leaves the file stream waiting
+      // for more, so end it to fail the pipeline and drop the partial file
+      const onClose = () => {
+        if (!req.complete) file.stream.destroy(new Error('Upload aborted'));
+      };
+      req.once('close', onClose);
+
+      pipeline(file.stream, hasher, fs.createWriteStream(tempPath))
+        .finally(() => req.off('close', onClose))
+        .then(() => cb(null, { path: tempPath, size, hash: hash.digest('hex') }))
+        .catch((err) => fs.rm(tempPath, { force: true }, () => cb(err)));
+    },
+
+    _removeFile(_req, file, cb) {
+      fs.rm(file.path, { force: true }, cb);
+    },
+  };
+}
@@ -1,4 +1,5 @@
-import type { ReadingPosition } from '../types';
+import type { BookFormat, PositionAnchor, ProcessedBook, ReadingPosition } from '../types';
+import type { TimingSettings } from '../rsvp/timing';
 
 export interface Position {
   chapterIndex: number;
@@ -6,6 +7,7 @@ export interface Position {
   wordIndex: number;
   wpm: number;
   chapterTitle: string | null;
+  anchor: PositionAnchor | null;
 }
 
 export interface BookInfo {
@@ -16,9 +18,26 @@ export interface BookInfo {
   author: string | null;
   added_at: number;
   last_read_at: number | null;
+  profile_id: number | null;
+  format: BookFormat;
   position: Position | null;
 }
 
+// Everything a timing profile bundles
+export interface ProfileSettings {
+  wpm: number;
+  timing: TimingSettings;
+  fontSize: number;
+}
+
+export interface TimingProfile {
+  id: number;
+  name: string;
+  settings: ProfileSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface BookStats {
   aggregate: {
     totalSessions: number;
@@ -55,7 +74,10 @@ class APIClient {
     });
 
     if (!res.ok) {
-      const error = await res.json().catch(() => ({ error: 'Upload failed' }));
+      // A proxy in front of the server may reject large files without JSON
+      const error = await res.json().catch(() => ({
+        error: res.status === 413 ? 'File is too large to upload' : 'Upload failed',
+      }));
       throw new Error(error.error || 'Failed to upload book');
     }
 
@@ -68,7 +90,8 @@ class APIClient {
     return res.json();
   }
 
-  async updateBookMetadata(hash: string, title: string, author: string): Promise<BookInfo> {
+  // Null leaves a field as it is
+  async updateBookMetadata(hash: string, title: string | null, author: string | null): Promise<BookInfo> {
     const res = await fetch(`${this.baseUrl}/books/${hash}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
@@ -78,12 +101,33 @@ class APIClient {
     return res.json();
   }
 
+  async setBookProfile(hash: string, profileId: number | null): Promise<void> {
+    const res = await fetch(`${this.baseUrl}/books/${hash}/profile`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ profileId }),
+    });
+    if (!res.ok) throw new Error('Failed to set book profile');
+  }
+
   async getBookFile(hash: string): Promise<ArrayBuffer> {
     const res = await fetch(`${this.baseUrl}/books/${hash}/file`);
     if (!res.ok) throw new Error('Failed to fetch book file');
     return res.arrayBuffer();
   }
 
+  // Text extracted and cached by the server
+  async getBookContent(hash: string): Promise<ProcessedBook> {
+    const res = await fetch(`${this.baseUrl}/books/${hash}/content`);
+    if (!res.ok) throw new Error('Failed to fetch book content');
+    return res.json();
+  }
+
+  // URL of an image inside the book, by archive path
+  getBookImageUrl(hash: string, path: string): string {
+    return `${this.baseUrl}/books/${hash}/image?path=${encodeURIComponent(path)}`;
+  }
+
   async deleteBook(hash: string): Promise<void> {
     const res = await fetch(`${this.baseUrl}/books/${hash}`, {
       method: 'DELETE',
@@ -101,7 +145,8 @@ class APIClient {
     hash: string,
     position: ReadingPosition,
     wpm: number,
-    chapterTitle?: string
+    chapterTitle?: string,
+    anchor?: PositionAnchor
   ): Promise<void> {
     const res = await fetch(`${this.baseUrl}/books/${hash}/checkpoints/position`, {
       method: 'PUT',
@@ -112,6 +157,7 @@ class APIClient {
         wordIndex: position.wordIndex,
         wpm,
         chapterTitle,
+        anchor,
       }),
     });
     if (!res.ok) throw new Error('Failed to save position');
@@ -134,9 +180,50 @@ class APIClient {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ sessionStart, sessionEnd, wordsRead, avgWpm }),
+      // Sessions are often saved as the page unloads
+      keepalive: true,
     });
     if (!res.ok) throw new Error('Failed to save session');
   }
+
+  async getProfiles(): Promise<TimingProfile[]> {
+    const res = await fetch(`${this.baseUrl}/profiles`);
+    if (!res.ok) throw new Error('Failed to fetch profiles');
+    return res.json();
+  }
+
+  async createProfile(name: string, settings: ProfileSettings): Promise<TimingProfile> {
+    const res = await fetch(`${this.baseUrl}/profiles`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, settings }),
+    });
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({ error: 'Failed to create profile' }));
+      throw new Error(error.error || 'Failed to create profile');
+    }
+    return res.json();
+  }
+
+  async updateProfile(id: number, name: string, settings: ProfileSettings): Promise<TimingProfile> {
+    const res = await fetch(`${this.baseUrl}/profiles/${id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, settings }),
+    });
+    if (!res.ok) {
+      const error = await res.json().catch(() => ({ error: 'Failed to update profile' }));
+      throw new Error(error.error || 'Failed to update profile');
+    }
+    return res.json();
+  }
+
+  async deleteProfile(id: number): Promise<void> {
+    const res = await fetch(`${this.baseUrl}/profiles/${id}`, {
+      method: 'DELETE',
+    });
+    if (!res.ok) throw new Error('Failed to delete profile');
+  }
 }
 
 export const api = new APIClient();
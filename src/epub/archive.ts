@@ -0,0 +1,301 @@
+import JSZip from 'jszip';
+import { DOMParser } from 'linkedom';
+
+// Anything with the browser DOMParser's interface. The server passes
+// linkedom's implementation so extraction code is shared.
+export interface DocumentParser {
+  parseFromString(text: string, type: DOMParserSupportedType): Document;
+}
+
+// linkedom's parser, for the server and the extraction worker, which have
+// no DOM of their own. Its types don't line up with lib.dom's Document.
+export function createDocumentParser(): DocumentParser {
+  return new DOMParser() as unknown as DocumentParser;
+}
+
+export interface ManifestItem {
+  id: string;
+  // Path inside the archive, resolved against the OPF location
+  path: string;
+  mediaType: string;
+  properties: string[];
+}
+
+// One table-of-contents entry, flattened in reading order
+export interface TocEntry {
+  title: string;
+  // Archive path of the target document
+  path: string;
+  // Element id within the document, if the entry points mid-file
+  fragment: string | null;
+  // Nesting level, 0 for top-level entries
+  depth: number;
+}
+
+// A structural landmark (EPUB 3 nav landmarks or EPUB 2 guide reference)
+export interface Landmark {
+  // EPUB 3 structural semantics term, e.g. "bodymatter", "toc", "copyright-page"
+  type: string;
+  path: string;
+  fragment: string | null;
+}
+
+// EPUB 2 guide types that differ from their EPUB 3 equivalents
+const GUIDE_TYPES: Record<string, string> = {
+  text: 'bodymatter',
+  'title-page': 'titlepage',
+  acknowledgements: 'acknowledgments',
+};
+
+export interface EpubMetadata {
+  title: string | null;
+  author: string | null;
+  language: string | null;
+}
+
+// Malformed escapes in hand-made EPUBs are common; keep them as written
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Resolve `href` relative to the archive path `base` (a file path)
+export function resolvePath(base: string, href: string): string {
+  const [target] = href.split('#');
+  // "#id" points into the same document
+  if (target === '') return base;
+  const parts = base.split('/').slice(0, -1);
+
+  for (const part of safeDecode(target).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part !== '.' && part !== '') parts.push(part);
+  }
+
+  return parts.join('/');
+}
+
+// Direct children of `parent` with the given tag name (case-insensitive,
+// since HTML parsers upper-case tag names and XML parsers don't)
+function childElements(parent: Element, tagName: string): Element[] {
+  const name = tagName.toLowerCase();
+  return Array.from(parent.children).filter(el => el.localName.toLowerCase() === name);
+}
+
+// Read-only view of an EPUB's zip container and package document
+export class EpubArchive {
+  private zip: JSZip;
+  private parser: DocumentParser;
+  readonly opfPath: string;
+  readonly metadata: EpubMetadata;
+  readonly manifest: Map<string, ManifestItem>;
+  // Reading order: manifest items referenced by the spine
+  readonly spine: ManifestItem[];
+  // EPUB 2 NCX table of contents, named by the spine's toc attribute
+  private ncxId: string | null;
+  private guide: Landmark[];
+
+  private constructor(
+    zip: JSZip,
+    parser: DocumentParser,
+    opfPath: string,
+    opf: Document
+  ) {
+    this.zip = zip;
+    this.parser = parser;
+    this.opfPath = opfPath;
+    this.metadata = {
+      title: this.readDcElement(opf, 'title'),
+      author: this.readDcElement(opf, 'creator'),
+      language: this.readDcElement(opf, 'language'),
+    };
+
+    this.manifest = new Map();
+    for (const item of Array.from(opf.getElementsByTagName('item'))) {
+      const id = item.getAttribute('id');
+      const href = item.getAttribute('href');
+      if (!id || !href) continue;
+      this.manifest.set(id, {
+        id,
+        path: resolvePath(opfPath, href),
+        mediaType: item.getAttribute('media-type') ?? '',
+        properties: (item.getAttribute('properties') ?? '').split(/\s+/).filter(Boolean),
+      });
+    }
+
+    this.ncxId = opf.getElementsByTagName('spine')[0]?.getAttribute('toc') ?? null;
+    this.spine = [];
+    for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+      const item = this.manifest.get(itemref.getAttribute('idref') ?? '');
+      if (item) this.spine.push(item);
+    }
+
+    this.guide = [];
+    for (const reference of Array.from(opf.getElementsByTagName('reference'))) {
+      const type = (reference.getAttribute('type') ?? '').toLowerCase();
+      const href = reference.getAttribute('href');
+      if (type && href) {
+        this.guide.push(this.landmark(opfPath, href, GUIDE_TYPES[type] ?? type));
+      }
+    }
+  }
+
+  static async open(data: ArrayBuffer | Uint8Array, parser: DocumentParser): Promise<EpubArchive> {
+    const zip = await JSZip.loadAsync(data);
+
+    const containerXml = await zip.file('META-INF/container.xml')?.async('string');
+    if (!containerXml) {
+      throw new Error('Not an EPUB: missing META-INF/container.xml');
+    }
+
+    const container = parser.parseFromString(containerXml, 'application/xml');
+    const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+    if (!opfPath) {
+      throw new Error('Not an EPUB: container.xml has no rootfile');
+    }
+
+    const opfXml = await zip.file(opfPath)?.async('string');
+    if (!opfXml) {
+      throw new Error(`Not an EPUB: package document ${opfPath} is missing`);
+    }
+
+    return new EpubArchive(zip, parser, opfPath, parser.parseFromString(opfXml, 'application/xml'));
+  }
+
+  async readText(path: string): Promise<string | null> {
+    return (await this.zip.file(path)?.async('string')) ?? null;
+  }
+
+  async readBinary(path: string): Promise<Uint8Array | null> {
+    return (await this.zip.file(path)?.async('uint8array')) ?? null;
+  }
+
+  // Parse a content document as XHTML, so self-closed tags like <title/>
+  // and <script/> don't swallow the rest of it. Sloppy markup that isn't
+  // well-formed XML is parsed as HTML instead, as is everything when the
+  // parser can't build an XHTML document (linkedom's XML documents have
+  // no body).
+  async readDocument(path: string): Promise<Document | null> {
+    const text = await this.readText(path);
+    if (text === null) return null;
+
+    const doc = this.parser.parseFromString(text, 'application/xhtml+xml');
+    if (doc.getElementsByTagName('parsererror').length === 0 && doc.body) return doc;
+    return this.parser.parseFromString(text, 'text/html');
+  }
+
+  // Table of contents from the EPUB 3 nav document, falling back to the
+  // EPUB 2 NCX. Empty if the book has neither.
+  async readToc(): Promise<TocEntry[]> {
+    const items = Array.from(this.manifest.values());
+
+    const nav = items.find(item => item.properties.includes('nav'));
+    if (nav) {
+      const entries = await this.readNavToc(nav.path);
+      if (entries.length > 0) return entries;
+    }
+
+    const ncx = (this.ncxId ? this.manifest.get(this.ncxId) : undefined)
+      ?? items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    if (ncx) {
+      return this.readNcxToc(ncx.path);
+    }
+
+    return [];
+  }
+
+  // Landmarks from the EPUB 3 nav document, falling back to the EPUB 2 guide
+  async readLandmarks(): Promise<Landmark[]> {
+    const nav = Array.from(this.manifest.values()).find(item => item.properties.includes('nav'));
+    const doc = nav ? await this.readDocument(nav.path) : null;
+    const landmarksNav = doc && Array.from(doc.getElementsByTagName('nav'))
+      .find(el => (el.getAttribute('epub:type') ?? '').split(/\s+/).includes('landmarks'));
+
+    if (nav && landmarksNav) {
+      const landmarks: Landmark[] = [];
+      for (const link of Array.from(landmarksNav.getElementsByTagName('a'))) {
+        const href = link.getAttribute('href');
+        const types = (link.getAttribute('epub:type') ?? '').split(/\s+/).filter(Boolean);
+        if (href && types.length > 0) {
+          landmarks.push(...types.map(type => this.landmark(nav.path, href, type)));
+        }
+      }
+      if (landmarks.length > 0) return landmarks;
+    }
+
+    return this.guide;
+  }
+
+  private async readNavToc(navPath: string): Promise<TocEntry[]> {
+    const doc = await this.readDocument(navPath);
+    if (!doc) return [];
+
+    const navs = Array.from(doc.getElementsByTagName('nav'));
+    const toc = navs.find(nav => (nav.getAttribute('epub:type') ?? '').split(/\s+/).includes('toc')) ?? navs[0];
+    const list = toc ? childElements(toc, 'ol')[0] : undefined;
+    if (!list) return [];
+
+    const entries: TocEntry[] = [];
+    const walk = (ol: Element, depth: number) => {
+      for (const li of childElements(ol, 'li')) {
+        const link = childElements(li, 'a')[0];
+        const href = link?.getAttribute('href');
+        if (link && href) {
+          entries.push(this.tocEntry(navPath, href, link.textContent ?? '', depth));
+        }
+        const nested = childElements(li, 'ol')[0];
+        // Unlinked headings still group their children
+        if (nested) walk(nested, depth + 1);
+      }
+    };
+    walk(list, 0);
+    return entries;
+  }
+
+  private async readNcxToc(ncxPath: string): Promise<TocEntry[]> {
+    const text = await this.readText(ncxPath);
+    if (!text) return [];
+
+    const doc = this.parser.parseFromString(text, 'application/xml');
+    const navMap = doc.getElementsByTagName('navMap')[0];
+    if (!navMap) return [];
+
+    const entries: TocEntry[] = [];
+    const walk = (parent: Element, depth: number) => {
+      for (const point of childElements(parent, 'navPoint')) {
+        const label = point.getElementsByTagName('text')[0]?.textContent ?? '';
+        const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+        if (src) {
+          entries.push(this.tocEntry(ncxPath, src, label, depth));
+        }
+        walk(point, depth + 1);
+      }
+    };
+    walk(navMap, 0);
+    return entries;
+  }
+
+  private tocEntry(basePath: string, href: string, label: string, depth: number): TocEntry {
+    const hashIndex = href.indexOf('#');
+    const fragment = hashIndex >= 0 ? safeDecode(href.slice(hashIndex + 1)) : '';
+    return {
+      title: label.replace(/\s+/g, ' ').trim(),
+      path: resolvePath(basePath, href),
+      fragment: fragment || null,
+      depth,
+    };
+  }
+
+  private landmark(basePath: string, href: string, type: string): Landmark {
+    const { path, fragment } = this.tocEntry(basePath, href, '', 0);
+    return { type, path, fragment };
+  }
+
+  private readDcElement(opf: Document, name: string): string | null {
+    const el = opf.getElementsByTagName(`dc:${name}`)[0] ?? opf.getElementsByTagName(name)[0];
+    const text = el?.textContent?.trim();
+    return text ? text : null;
+  }
+}
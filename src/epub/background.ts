@@ -0,0 +1,53 @@
+import type { BookFormat, ProcessedBook } from '../types';
+import type { ExtractionProgress } from './extractor';
+
+// Extraction off the main thread, so large books don't freeze the page.
+// The worker reports chapters as they're finished; callers get a partial
+// book after each report and the whole book at the end.
+
+export interface ExtractionRequest {
+  data: ArrayBuffer;
+  format: BookFormat;
+  filename: string;
+}
+
+export type ExtractionMessage =
+  | ({ type: 'progress' } & ExtractionProgress)
+  | { type: 'done'; book: ProcessedBook }
+  | { type: 'error'; message: string };
+
+export function extractInBackground(
+  request: ExtractionRequest,
+  onProgress: (progress: ExtractionProgress, partial: ProcessedBook) => void
+): Promise<ProcessedBook> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./extraction-worker.ts', import.meta.url), { type: 'module' });
+    const chapters: ProcessedBook['chapters'] = [];
+    const notes: ProcessedBook['notes'] = {};
+
+    worker.onmessage = (event: MessageEvent<ExtractionMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        chapters.push(...message.chapters);
+        Object.assign(notes, message.notes);
+        onProgress(message, { ...message.info, chapters: [...chapters], notes: { ...notes } });
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.book);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Extraction failed'));
+    };
+
+    // The file isn't needed here afterwards, so hand it over rather than copy it
+    worker.postMessage(request, [request.data]);
+  });
+}
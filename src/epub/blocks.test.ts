@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DOMParser } from 'linkedom';
+import { describe, expect, it } from 'vitest';
+import { extractTextBlocks } from './blocks';
+import type { ExtractedText } from './blocks';
+
+// Awkward markup seen in real books, one document per kind of problem
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+function extract(name: string): ExtractedText {
+  const doc = new DOMParser().parseFromString(fs.readFileSync(path.join(FIXTURES, name), 'utf8'), 'text/html');
+  return extractTextBlocks(doc as unknown as Document, { path: `OEBPS/text/${name}`, noteTargets: new Set() });
+}
+
+// Text and source element of each block, with images as "[img src]"
+function outline(extracted: ExtractedText): string[] {
+  return extracted.blocks.map(block =>
+    block.image ? `[img ${block.image.src}]` : `${block.sourceElement}: ${block.text}`
+  );
+}
+
+describe('extractTextBlocks', () => {
+  it('reads a figure caption once, with its image', () => {
+    const extracted = extract('figure-caption.xhtml');
+    expect(outline(extracted)).toEqual([
+      'p: Before the map.',
+      '[img OEBPS/images/map.png]',
+      '[img OEBPS/images/plan.png]',
+      'figcaption: A figure with no picture.',
+      'blockquote: Only a quote.',
+      "figcaption: External images aren't shown, so this is read.",
+      'p: After the map.',
+    ]);
+    expect(extracted.blocks[1].image).toEqual({ src: 'OEBPS/images/map.png', alt: 'A map', caption: 'The known world.' });
+    expect(extracted.blocks[1].ids).toEqual(['fig1']);
+    expect(extracted.blocks[2].image?.caption).toBe('Caption first.');
+  });
+
+  it('keeps reading past self-closed head and empty elements', () => {
+    expect(outline(extract('self-closing.xhtml'))).toEqual([
+      'p: The text after empty elements.',
+      'p: Still here.',
+    ]);
+  });
+
+  it('splits text around nested blocks, line breaks and preformatted lines', () => {
+    const extracted = extract('mixed-content.xhtml');
+    expect(outline(extracted)).toEqual([
+      'div: Loose text before',
+      'p: a paragraph inside a div,',
+      'div: and loose text after it.',
+      'blockquote: Quoted one.',
+      'blockquote: Quoted two.',
+      'li: First item',
+      'li: nested item',
+      'p: Roses are red,',
+      'p: violets are blue.',
+      'pre: line one',
+      'pre: line two',
+      'p: Small caps and styled text.',
+    ]);
+    expect(extracted.blocks[0].ids).toEqual(['start']);
+    expect(extracted.blocks[3].styles).toEqual([{ start: 7, end: 10, style: 'bold' }]);
+    expect(extracted.blocks[11].styles).toEqual([
+      { start: 0, end: 10, style: 'smallCaps' },
+      { start: 15, end: 21, style: 'italic' },
+    ]);
+  });
+
+  it('skips ruby annotations and finds SVG images', () => {
+    expect(outline(extract('ruby-and-svg.xhtml'))).toEqual([
+      'p: 漢字 reading.',
+      '[img OEBPS/images/cover.jpg]',
+      'p: After the cover.',
+    ]);
+  });
+
+  it('lifts out note markers and collects note bodies', () => {
+    const extracted = extract('footnotes.xhtml');
+    const noteId = (id: string) => `OEBPS/text/footnotes.xhtml#${id}`;
+    expect(outline(extracted)).toEqual(['p: A claim and another.', 'p: Bracketed marker.']);
+    expect(extracted.blocks[0].notes).toEqual([
+      { offset: 7, noteId: noteId('n1'), label: '1' },
+      { offset: 19, noteId: noteId('n2'), label: '2' },
+    ]);
+    expect(extracted.blocks[1].notes).toEqual([{ offset: 9, noteId: noteId('n3'), label: '3' }]);
+    expect(extracted.notes).toEqual([
+      { id: noteId('n1'), text: 'First note.' },
+      { id: noteId('n2'), text: 'Second note.' },
+      { id: noteId('n3'), text: 'Third note.' },
+    ]);
+  });
+});
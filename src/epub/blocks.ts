@@ -0,0 +1,353 @@
+import type { ParagraphImage, WordStyle } from '../types';
+import { resolvePath } from './archive';
+
+// Splits a content document into readable text blocks. Every text node is
+// visited exactly once, so nested markup can't duplicate or drop text.
+// Footnote markers are lifted out of the text and note bodies are collected
+// separately instead of being read inline. Inline formatting is kept as
+// character ranges alongside the text, and images become blocks of their own.
+
+// A footnote marker, positioned by character offset into the block text
+export interface TextNoteRef {
+  offset: number;
+  // Resolved "path#id" of the note body
+  noteId: string;
+  label: string;
+}
+
+export type TextStyle = keyof WordStyle;
+
+// A run of formatted text, as character offsets into the block text
+export interface TextStyleSpan {
+  start: number;
+  end: number;
+  style: TextStyle;
+}
+
+export interface TextBlock {
+  text: string;
+  // Tag that best describes the block: the nearest list item, quote, cell,
+  // heading etc., else the element the text sat in ("p", "div", "body"...)
+  sourceElement: string;
+  // ids of elements at or inside the block, for resolving TOC fragments
+  ids: string[];
+  notes: TextNoteRef[];
+  styles: TextStyleSpan[];
+  // Set for image blocks, whose text is empty
+  image?: ParagraphImage;
+}
+
+export interface NoteBody {
+  // "path#id", matching TextNoteRef.noteId
+  id: string;
+  text: string;
+}
+
+export interface ExtractedText {
+  blocks: TextBlock[];
+  notes: NoteBody[];
+}
+
+export interface ExtractOptions {
+  // Archive path of the document, for resolving note links
+  path: string;
+  // Targets of note references seen so far in the book ("path#id"). Filled
+  // as markers are found, so plain elements they point at count as notes.
+  noteTargets: Set<string>;
+}
+
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+
+// Elements whose content starts a new block
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'center', 'dd', 'details',
+  'dialog', 'div', 'dl', 'dt', 'fieldset', 'figcaption', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hgroup', 'hr', 'li', 'main', 'nav', 'ol',
+  'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+// Blocks whose type is worth keeping for everything nested inside them,
+// e.g. a <p> in a <blockquote> is reported as "blockquote"
+const SEMANTIC_TAGS = new Set([
+  'blockquote', 'caption', 'dd', 'dt', 'figcaption', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'li', 'pre', 'td', 'th',
+]);
+
+// Never readable; <rt>/<rp> are ruby annotations that would repeat the base text
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'template', 'noscript', 'rt', 'rp']);
+
+// Short marker text: "3", "[3]", "*", "†"
+const MARKER_TEXT = /^[[(]?(?:\d{1,4}|[a-z]|[*†‡§¶]{1,3})[\])]?$/i;
+const NOTE_CLASS = /\b(?:foot|end)notes?\b/i;
+const NOTE_REF_CLASS = /\b(?:noteref|fnref|(?:foot|end)note-?(?:ref|link|anchor|marker))\b/i;
+const NOTE_TYPES = ['footnote', 'endnote', 'rearnote', 'note'];
+const NOTES_CONTAINER_TYPES = ['footnotes', 'endnotes', 'rearnotes'];
+
+const STYLE_TAGS: Record<string, TextStyle> = {
+  em: 'italic', i: 'italic', cite: 'italic', dfn: 'italic', var: 'italic',
+  strong: 'bold', b: 'bold',
+  code: 'code', kbd: 'code', samp: 'code', tt: 'code',
+};
+const ITALIC_CLASS = /\b(?:italics?|emph(?:asis)?)\b/i;
+const BOLD_CLASS = /\b(?:bold|strong)\b/i;
+const SMALL_CAPS_CLASS = /\b(?:small-?caps|smcaps?|sc)\b/i;
+
+function semanticTypes(el: Element): string[] {
+  return [
+    ...(el.getAttribute('epub:type') ?? '').split(/\s+/),
+    ...(el.getAttribute('role') ?? '').replace(/\bdoc-/g, '').split(/\s+/),
+  ].filter(Boolean);
+}
+
+// Link target of a footnote marker, or null if `el` isn't one
+function getNoteRefHref(el: Element): string | null {
+  const tag = el.localName.toLowerCase();
+  const text = el.textContent?.trim() ?? '';
+
+  if (tag === 'a') {
+    const href = el.getAttribute('href');
+    if (!href || !href.includes('#')) return null;
+    if (semanticTypes(el).includes('noteref')) return href;
+    if (NOTE_REF_CLASS.test(el.getAttribute('class') ?? '') && MARKER_TEXT.test(text)) return href;
+    // Superscript numbers linking elsewhere: <a><sup>3</sup></a>, <sup><a>3</a></sup>
+    const superscript = el.parentElement?.localName.toLowerCase() === 'sup' || el.querySelector('sup') !== null;
+    if (MARKER_TEXT.test(text) && (superscript || /^\[\d+\]$/.test(text))) return href;
+    return null;
+  }
+
+  // A superscript wrapping a marker link and its brackets: <sup>[<a>3</a>]</sup>
+  if (tag === 'sup' && MARKER_TEXT.test(text)) {
+    const links = el.getElementsByTagName('a');
+    return links.length === 1 ? getNoteRefHref(links[0]) : null;
+  }
+
+  return null;
+}
+
+// Archive path an <img> or SVG <image> points at, or null for external and
+// inline (data:) images
+function getImageSource(el: Element, tag: string, path: string): string | null {
+  if (tag !== 'img' && tag !== 'image') return null;
+  const href = el.getAttribute('src') ?? el.getAttribute('href') ?? el.getAttribute('xlink:href');
+  if (!href || /^[a-z][a-z0-9+.-]*:/i.test(href)) return null;
+  return resolvePath(path, href);
+}
+
+function figureCaption(el: Element): string {
+  const caption = el.closest('figure')?.querySelector('figcaption');
+  return (caption?.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+// A figure's caption travels with its image (see figureCaption) instead of
+// being read as well. Captions of figures without an image are read as text.
+function isImageCaption(el: Element, path: string): boolean {
+  const figure = el.closest('figure');
+  if (!figure) return false;
+  return Array.from(figure.querySelectorAll('img, image'))
+    .some(image => getImageSource(image, image.localName.toLowerCase(), path) !== null);
+}
+
+// Formatting an element applies to its text, from its tag, class or inline style
+function elementStyles(el: Element, tag: string): TextStyle[] {
+  const className = el.getAttribute('class') ?? '';
+  const css = el.getAttribute('style') ?? '';
+  const styles: TextStyle[] = [];
+
+  if (STYLE_TAGS[tag]) styles.push(STYLE_TAGS[tag]);
+  if (ITALIC_CLASS.test(className) || /font-style\s*:\s*(?:italic|oblique)/i.test(css)) {
+    styles.push('italic');
+  }
+  if (BOLD_CLASS.test(className) || /font-weight\s*:\s*(?:bold|bolder|[6-9]00)/i.test(css)) {
+    styles.push('bold');
+  }
+  if (SMALL_CAPS_CLASS.test(className) || /font-variant(?:-caps)?\s*:\s*(?:all-)?small-caps/i.test(css)) {
+    styles.push('smallCaps');
+  }
+  return styles;
+}
+
+function isNoteBody(el: Element): boolean {
+  if (semanticTypes(el).some(type => NOTE_TYPES.includes(type))) return true;
+  return NOTE_CLASS.test(el.getAttribute('class') ?? '') && el.id !== '';
+}
+
+function isNotesContainer(el: Element): boolean {
+  return semanticTypes(el).some(type => NOTES_CONTAINER_TYPES.includes(type));
+}
+
+// Readable text of a note body, without back-links to the marker
+function noteText(el: Element): string {
+  let text = '';
+  const walk = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === TEXT_NODE) {
+        text += child.nodeValue ?? '';
+      } else if (child.nodeType === ELEMENT_NODE) {
+        const childEl = child as Element;
+        const tag = childEl.localName.toLowerCase();
+        if (SKIPPED_TAGS.has(tag)) continue;
+        if (semanticTypes(childEl).includes('backlink') || /^[↩↑⏎]+$/.test(childEl.textContent?.trim() ?? '')) continue;
+        if (BLOCK_TAGS.has(tag) || tag === 'br') text += ' ';
+        walk(childEl);
+      }
+    }
+  };
+  walk(el);
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function extractTextBlocks(doc: Document, options: ExtractOptions): ExtractedText {
+  const blocks: TextBlock[] = [];
+  const notes: NoteBody[] = [];
+  let run = '';
+  let runIds: string[] = [];
+  let runNotes: TextNoteRef[] = [];
+  let runStyles: TextStyleSpan[] = [];
+
+  // Emit the pending text; ids carry over to the next block if it was empty
+  const flush = (sourceElement: string) => {
+    const text = run.replace(/\s+/g, ' ').trim();
+    if (text) {
+      // Map offsets into the raw run onto the whitespace-collapsed text
+      const leading = run.length - run.trimStart().length;
+      const toTextOffset = (offset: number) =>
+        Math.min(text.length, run.slice(leading, offset).replace(/\s+/g, ' ').length);
+
+      blocks.push({
+        text,
+        sourceElement,
+        ids: runIds,
+        notes: runNotes.map(note => ({ ...note, offset: toTextOffset(note.offset) })),
+        styles: runStyles
+          .map(span => ({ ...span, start: toTextOffset(span.start), end: toTextOffset(span.end) }))
+          .filter(span => span.end > span.start),
+      });
+      runIds = [];
+    }
+    run = '';
+    runNotes = [];
+    runStyles = [];
+  };
+
+  const append = (text: string, styles: TextStyle[]) => {
+    for (const style of styles) {
+      runStyles.push({ start: run.length, end: run.length + text.length, style });
+    }
+    run += text;
+  };
+
+  const noteId = (id: string) => `${options.path}#${id}`;
+
+  const collectNote = (el: Element) => {
+    const text = noteText(el);
+    if (el.id && text) notes.push({ id: noteId(el.id), text });
+  };
+
+  // Each top-level element with an id inside an endnotes section is a note
+  const collectNotes = (container: Element) => {
+    for (const child of Array.from(container.children)) {
+      if (child.id) collectNote(child);
+      else collectNotes(child);
+    }
+  };
+
+  const walk = (node: Node, sourceElement: string, preformatted: boolean, styles: TextStyle[]) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === TEXT_NODE) {
+        const text = child.nodeValue ?? '';
+        // Preformatted text (code, verse) keeps its line breaks as blocks
+        if (preformatted) {
+          const lines = text.split('\n');
+          lines.slice(0, -1).forEach(line => {
+            append(line, styles);
+            flush(sourceElement);
+          });
+          append(lines[lines.length - 1], styles);
+        } else {
+          append(text, styles);
+        }
+        continue;
+      }
+
+      if (child.nodeType !== ELEMENT_NODE) continue;
+      const el = child as Element;
+      const tag = el.localName.toLowerCase();
+      if (SKIPPED_TAGS.has(tag)) continue;
+
+      // Footnote markers are recorded, not read
+      const href = getNoteRefHref(el);
+      if (href) {
+        const target = `${resolvePath(options.path, href)}#${href.slice(href.indexOf('#') + 1)}`;
+        options.noteTargets.add(target);
+        runNotes.push({
+          offset: run.length,
+          noteId: target,
+          label: (el.textContent ?? '').trim().replace(/^[[(]|[\])]$/g, ''),
+        });
+        continue;
+      }
+
+      if (isNotesContainer(el)) {
+        flush(sourceElement);
+        collectNotes(el);
+        continue;
+      }
+      if (isNoteBody(el) || (el.id && options.noteTargets.has(noteId(el.id)))) {
+        flush(sourceElement);
+        collectNote(el);
+        continue;
+      }
+
+      const imageSource = getImageSource(el, tag, options.path);
+      if (imageSource) {
+        flush(sourceElement);
+        blocks.push({
+          text: '',
+          sourceElement: 'img',
+          ids: el.id ? [...runIds, el.id] : runIds,
+          notes: [],
+          styles: [],
+          image: {
+            src: imageSource,
+            alt: (el.getAttribute('alt') ?? '').trim(),
+            caption: figureCaption(el),
+          },
+        });
+        runIds = [];
+        continue;
+      }
+
+      if (tag === 'figcaption' && isImageCaption(el, options.path)) {
+        if (el.id) runIds.push(el.id);
+        continue;
+      }
+
+      // Line breaks separate verse lines and addresses
+      if (tag === 'br') {
+        flush(sourceElement);
+        continue;
+      }
+
+      const childStyles = [...new Set([...styles, ...elementStyles(el, tag)])];
+      if (BLOCK_TAGS.has(tag)) {
+        flush(sourceElement);
+        if (el.id) runIds.push(el.id);
+        const blockElement = SEMANTIC_TAGS.has(tag) || !SEMANTIC_TAGS.has(sourceElement) ? tag : sourceElement;
+        walk(el, blockElement, preformatted || tag === 'pre', childStyles);
+        flush(blockElement);
+      } else {
+        if (el.id) runIds.push(el.id);
+        walk(el, sourceElement, preformatted, childStyles);
+      }
+    }
+  };
+
+  const root = doc.body ?? doc.documentElement;
+  if (root) {
+    walk(root, 'body', false, []);
+    flush('body');
+  }
+
+  return { blocks, notes };
+}
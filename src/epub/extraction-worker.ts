@@ -0,0 +1,29 @@
+import { EpubArchive, createDocumentParser } from './archive';
+import { TextExtractor } from './extractor';
+import { importDocument } from '../import';
+import type { ExtractionMessage, ExtractionRequest } from './background';
+
+// Web Worker entry for extractInBackground. Workers have no DOM, so
+// documents are parsed with linkedom, as on the server.
+
+const parser = createDocumentParser();
+
+function post(message: ExtractionMessage): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<ExtractionRequest>) => {
+  const { data, format, filename } = event.data;
+  try {
+    if (format !== 'epub') {
+      post({ type: 'done', book: importDocument(format, new Uint8Array(data), parser, filename) });
+      return;
+    }
+
+    const archive = await EpubArchive.open(data, parser);
+    const book = await new TextExtractor().extractBook(archive, progress => post({ type: 'progress', ...progress }));
+    post({ type: 'done', book });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : 'Extraction failed' });
+  }
+};
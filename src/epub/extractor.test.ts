@@ -0,0 +1,94 @@
+import { DOMParser } from 'linkedom';
+import { describe, expect, it } from 'vitest';
+import { EpubArchive, createDocumentParser } from './archive';
+import { TextExtractor } from './extractor';
+import { buildEpub, xhtml } from '../test/helpers';
+import type { EpubItem } from '../test/helpers';
+import type { ProcessedBook } from '../types';
+
+describe('TextExtractor.extractDocument', () => {
+  it('reads image captions as text, having no images to show', () => {
+    const doc = new DOMParser().parseFromString(`<html><body>
+      <p>Before.</p>
+      <figure><img src="map.png" alt=""><figcaption>The known world.</figcaption></figure>
+      <figure><img src="plan.png" alt=""></figure>
+      <p>After.</p>
+    </body></html>`, 'text/html');
+    const book = new TextExtractor().extractDocument(doc as unknown as Document, { title: 'Maps', author: '', language: 'en' });
+
+    const paragraphs = book.chapters.flatMap(chapter => chapter.paragraphs);
+    expect(paragraphs.map(p => [p.sourceElement, p.words.map(w => w.text).join(' ')])).toEqual([
+      ['p', 'Before.'],
+      ['figcaption', 'The known world.'],
+      ['p', 'After.'],
+    ]);
+  });
+});
+
+describe('TextExtractor.extractBook front and back matter', () => {
+  async function extract(items: EpubItem[]): Promise<ProcessedBook> {
+    return new TextExtractor().extractBook(await EpubArchive.open(await buildEpub(items), createDocumentParser()));
+  }
+
+  function page(href: string, body: string, bodyAttributes = ''): EpubItem {
+    return { href, mediaType: 'application/xhtml+xml', content: xhtml(body, bodyAttributes) };
+  }
+
+  // Contents entries and landmarks, each as [href, title] or [type, href]
+  function nav(toc: [string, string][], landmarks: [string, string][] = []): EpubItem {
+    const tocLinks = toc.map(([href, title]) => `<li><a href="${href}">${title}</a></li>`).join('');
+    const landmarkLinks = landmarks.map(([type, href]) => `<li><a epub:type="${type}" href="${href}">${type}</a></li>`).join('');
+    return {
+      href: 'nav.xhtml',
+      mediaType: 'application/xhtml+xml',
+      properties: 'nav',
+      content: xhtml(`<nav epub:type="toc"><ol>${tocLinks}</ol></nav>` +
+        (landmarkLinks ? `<nav epub:type="landmarks"><ol>${landmarkLinks}</ol></nav>` : '')),
+    };
+  }
+
+  const cover = page('cover.xhtml', '<img src="cover.jpg" alt="Cover"/>');
+  const copyright = page('copyright.xhtml', '<p>Copyright 2020 Jane Doe. All rights reserved.</p>', 'epub:type="copyright-page"');
+  const contents = page('contents.xhtml',
+    '<h1>Contents</h1><p><a href="one.xhtml">The Road North</a></p><p><a href="two.xhtml">Winter Comes</a></p><p><a href="index.xhtml">Index</a></p>');
+  const one = page('one.xhtml', '<h1>The Road North</h1><p>They set out at dawn.</p>');
+  const two = page('two.xhtml', '<h1>Winter Comes</h1><p>Snow fell for a week.</p>');
+  const index = page('index.xhtml', '<h1>Index</h1><p>dawn, 1</p><p>snow, 2</p>');
+  const image: EpubItem = { href: 'cover.jpg', mediaType: 'image/jpeg', content: new Uint8Array([0xff, 0xd8, 0xff]) };
+
+  function matterOf(book: ProcessedBook): [string, string][] {
+    return book.chapters.map(chapter => [chapter.title, chapter.matter]);
+  }
+
+  it('flags cover, copyright and contents pages before the text and an index after it', async () => {
+    const book = await extract([
+      cover, copyright, contents, one, two, index, image,
+      nav([['one.xhtml', 'The Road North'], ['two.xhtml', 'Winter Comes'], ['index.xhtml', 'Index']]),
+    ]);
+    expect(matterOf(book)).toEqual([
+      ['Chapter 1', 'front'],
+      ['Chapter 2', 'front'],
+      ['Contents', 'front'],
+      ['The Road North', 'body'],
+      ['Winter Comes', 'body'],
+      ['Index', 'back'],
+    ]);
+  });
+
+  it('takes matter pages and the start of the text from the landmarks', async () => {
+    const dedication = page('dedication.xhtml', '<p>For Ann, who waited.</p>');
+    const prologue = page('prologue.xhtml', '<p>Long before, the road was built.</p>');
+    const book = await extract([
+      dedication, prologue, one, two, image,
+      nav([['one.xhtml', 'The Road North'], ['two.xhtml', 'Winter Comes']], [['dedication', 'dedication.xhtml'], ['bodymatter', 'one.xhtml']]),
+    ]);
+    // The unflagged prologue comes before where the book says its text begins
+    expect(matterOf(book).map(([, matter]) => matter)).toEqual(['front', 'front', 'body', 'body']);
+  });
+
+  it('keeps matter-like pages between chapters as text', async () => {
+    const notes = page('notes.xhtml', '<h1>Notes</h1><p>On the road north.</p>');
+    const book = await extract([one, notes, two, nav([['one.xhtml', 'The Road North'], ['notes.xhtml', 'Notes'], ['two.xhtml', 'Winter Comes']])]);
+    expect(matterOf(book).map(([, matter]) => matter)).toEqual(['body', 'body', 'body']);
+  });
+});
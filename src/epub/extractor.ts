@@ -1,88 +1,312 @@
-import type { Book } from 'epubjs';
-import type { ProcessedBook, Chapter, Paragraph } from '../types';
-import { processParagraph } from '../rsvp/word-processor';
+import type { ProcessedBook, Chapter, ChapterMatter, Paragraph, ProcessedWord } from '../types';
+import { processParagraph, processText, processWord } from '../rsvp/word-processor';
+import type { EpubArchive, TocEntry } from './archive';
+import { extractTextBlocks } from './blocks';
+import type { TextBlock, TextNoteRef, TextStyleSpan } from './blocks';
+import { MATTER_TYPES, assignMatter, isImageOnly, isLinkList, isMatterDocument, isMatterTitle } from './matter';
+
+// Bump whenever extraction or word processing changes its output, so
+// server-side caches of ProcessedBook JSON are rebuilt
+export const EXTRACTOR_VERSION = 9;
+
+// Word standing in for an image, so it has a reading position
+const IMAGE_WORD = '[Image]';
+
+// Headings that start chapters in standalone documents, by level
+const CHAPTER_HEADINGS = ['h1', 'h2', 'h3'];
+
+// Note ids in standalone documents are relative to this path
+const DOCUMENT_PATH = 'document.html';
+
+// Book-level details for a standalone document, which has no package metadata
+export type DocumentInfo = Pick<ProcessedBook, 'title' | 'author' | 'language'>;
+
+// Reported after each spine document while a book is extracted
+export interface ExtractionProgress {
+  // Spine documents read so far, out of `total`
+  done: number;
+  total: number;
+  info: DocumentInfo;
+  // Chapters finished since the last report, with the notes they cite.
+  // Indices are final, but front/back matter is only known once the whole
+  // book is read, so every chapter is reported as body.
+  chapters: Chapter[];
+  notes: Record<string, string>;
+}
+
+// A TOC entry located in the spine
+interface ChapterStart {
+  spineIndex: number;
+  entry: TocEntry;
+}
+
+// A chapter being filled as the spine is walked
+interface ChapterDraft {
+  title: string;
+  depth: number;
+  paragraphs: Paragraph[];
+  // Marked as front/back matter by the book's markup
+  matter: boolean;
+}
 
 export class TextExtractor {
-  async extractBook(book: Book): Promise<ProcessedBook> {
-    const metadata = await book.loaded.metadata;
-    const chapters: Chapter[] = [];
+  // Chapters follow the table of contents: each entry starts a chapter
+  // (mid-file if it has a fragment), and spine files the TOC doesn't
+  // mention continue the chapter before them. Files before the first TOC
+  // entry, front/back matter pages, or every file if there's no TOC, become
+  // chapters of their own.
+  async extractBook(
+    archive: EpubArchive,
+    onProgress?: (progress: ExtractionProgress) => void
+  ): Promise<ProcessedBook> {
+    const { metadata } = archive;
+    const language = metadata.language ?? '';
+    const info: DocumentInfo = {
+      title: metadata.title || 'Untitled',
+      author: metadata.author || 'Unknown',
+      language,
+    };
+    const starts = this.locateToc(archive, await archive.readToc());
 
-    const spine = book.spine as any;
-    const spineLength = spine.spineItems?.length || 0;
+    // Landmarks point at matter pages and at where the text begins
+    const landmarks = await archive.readLandmarks();
+    const bodyLandmark = landmarks.find(landmark => landmark.type === 'bodymatter');
+    const matterPaths = new Set(landmarks.filter(landmark => MATTER_TYPES.has(landmark.type)).map(landmark => landmark.path));
 
-    for (let i = 0; i < spineLength; i++) {
+    const drafts: ChapterDraft[] = [];
+    let current: ChapterDraft | null = null;
+    let bodyStart: ChapterDraft | null = null;
+    let tocStarted = false;
+    const notes: Record<string, string> = {};
+    const noteTargets = new Set<string>();
+    // Drafts and chapters already passed to onProgress
+    let reportedDrafts = 0;
+    let reportedChapters = 0;
+
+    for (let i = 0; i < archive.spine.length; i++) {
       try {
-        const section = book.spine.get(i);
-        if (section) {
-          const chapter = await this.extractChapter(section, i, book);
-          if (chapter.paragraphs.length > 0) {
-            chapters.push(chapter);
+        const path = archive.spine[i].path;
+        const doc = await archive.readDocument(path);
+        if (!doc) continue;
+
+        const extracted = extractTextBlocks(doc, { path, noteTargets });
+        const blocks = extracted.blocks;
+        for (const note of extracted.notes) {
+          notes[note.id] = note.text;
+        }
+        const fileStarts = starts.filter(s => s.spineIndex === i);
+        const isBodyFile = path === bodyLandmark?.path;
+        const fileTitle = this.findChapterTitle(doc, drafts.length);
+        const matter = (matterPaths.has(path) && !isBodyFile) ||
+          isMatterDocument(doc) || isLinkList(doc) || isMatterTitle(fileTitle);
+        const bodyBlock = isBodyFile && bodyLandmark.fragment ? this.findBlockIndex(doc, blocks, bodyLandmark.fragment) : 0;
+
+        const startsAtBlock = new Map<number, TocEntry[]>();
+        for (const { entry } of fileStarts) {
+          const blockIndex = entry.fragment ? this.findBlockIndex(doc, blocks, entry.fragment) : 0;
+          startsAtBlock.set(blockIndex, [...(startsAtBlock.get(blockIndex) ?? []), entry]);
+        }
+
+        // Content ahead of the first TOC entry gets a chapter per file, as
+        // do matter pages, so they can be skipped
+        if ((!tocStarted || matter) && !startsAtBlock.has(0)) {
+          current = { title: fileTitle, depth: 0, paragraphs: [], matter };
+          drafts.push(current);
+        }
+
+        for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
+          for (const entry of startsAtBlock.get(blockIndex) ?? []) {
+            current = {
+              title: entry.title || this.findChapterTitle(doc, drafts.length),
+              depth: entry.depth,
+              paragraphs: [],
+              matter,
+            };
+            drafts.push(current);
+            tocStarted = true;
+          }
+
+          if (isBodyFile && !bodyStart && blockIndex >= bodyBlock) {
+            bodyStart = current;
+          }
+
+          const paragraph = this.buildParagraph(blocks[blockIndex], language);
+          if (paragraph.words.length > 0 && current) {
+            current.paragraphs.push(paragraph);
           }
         }
       } catch (err) {
-        console.warn(`Failed to extract chapter ${i}:`, err);
+        console.warn(`Failed to extract spine item ${i}:`, err);
+      }
+
+      if (onProgress) {
+        // The last draft may still continue into the next file
+        const finished = drafts.slice(reportedDrafts, -1).filter(draft => draft.paragraphs.length > 0);
+        reportedDrafts = Math.max(reportedDrafts, drafts.length - 1);
+        const chapters = finished.map(draft => this.toChapter(draft, reportedChapters++, 'body', notes));
+        onProgress({ done: i + 1, total: archive.spine.length, info, chapters, notes: this.citedNotes(chapters, notes) });
       }
     }
 
-    return {
-      title: metadata.title || 'Untitled',
-      author: metadata.creator || 'Unknown',
-      chapters,
-    };
+    return { ...info, chapters: this.finishChapters(drafts, notes, bodyStart), notes };
   }
 
-  private async extractChapter(
-    section: any,
-    index: number,
-    book: Book
-  ): Promise<Chapter> {
-    try {
-      const href = section.href;
-
-      // Use book.load to fetch content from the archive
-      const result = await book.load(href);
-
-      let html: string | undefined;
-      if (typeof result === 'string') {
-        html = result;
-      } else if (result && typeof result === 'object') {
-        html = (result as any).documentElement?.outerHTML ||
-               (result as any).outerHTML ||
-               (result as any).innerHTML;
+  // A single HTML document (also the target of text and Markdown imports).
+  // h1-h3 headings start chapters, nested by level; text before the first
+  // heading becomes a chapter named after the document.
+  extractDocument(doc: Document, info: DocumentInfo): ProcessedBook {
+    const extracted = extractTextBlocks(doc, { path: DOCUMENT_PATH, noteTargets: new Set() });
+    const notes: Record<string, string> = {};
+    for (const note of extracted.notes) {
+      notes[note.id] = note.text;
+    }
+
+    // There's no archive to serve images from, so only their captions are kept
+    const blocks = extracted.blocks.flatMap((block): TextBlock[] => {
+      if (!block.image) return [block];
+      const { image, ...rest } = block;
+      return image.caption ? [{ ...rest, text: image.caption, sourceElement: 'figcaption' }] : [];
+    });
+    const levels = blocks.map(block => CHAPTER_HEADINGS.indexOf(block.sourceElement)).filter(level => level >= 0);
+    const topLevel = Math.min(...levels);
+
+    const drafts: ChapterDraft[] = [];
+    let current: ChapterDraft | null = null;
+
+    for (const block of blocks) {
+      const level = CHAPTER_HEADINGS.indexOf(block.sourceElement);
+      if (level >= 0) {
+        current = { title: block.text, depth: level - topLevel, paragraphs: [], matter: false };
+        drafts.push(current);
+      } else if (!current) {
+        current = { title: info.title, depth: 0, paragraphs: [], matter: false };
+        drafts.push(current);
       }
 
-      if (!html || typeof html !== 'string') {
-        return { index, title: `Chapter ${index + 1}`, paragraphs: [] };
+      const paragraph = this.buildParagraph(block, info.language);
+      if (paragraph.words.length > 0) {
+        current.paragraphs.push(paragraph);
       }
+    }
+
+    return { ...info, chapters: this.finishChapters(drafts, notes), notes };
+  }
+
+  private buildParagraph(block: TextBlock, language: string): Paragraph {
+    const { text, sourceElement, notes: noteRefs, styles, image } = block;
+    if (image) {
+      return { words: [processWord(IMAGE_WORD, language)], sourceElement, image };
+    }
+
+    const paragraph = processParagraph(text, sourceElement, language);
+    if (styles.length > 0) {
+      this.applyStyles(text, paragraph.words, styles);
+    }
+    if (noteRefs.length > 0) {
+      paragraph.notes = this.placeNoteRefs(text, noteRefs, language);
+    }
+    return paragraph;
+  }
+
+  private finishChapters(
+    drafts: ChapterDraft[],
+    notes: Record<string, string>,
+    bodyStart: ChapterDraft | null = null
+  ): Chapter[] {
+    // Entries sharing a start with the next one (e.g. a part heading) end up empty
+    const kept = drafts.filter(draft => draft.paragraphs.length > 0);
+    const bodyStartIndex = bodyStart ? kept.indexOf(bodyStart) : -1;
+    const matter = assignMatter(
+      kept.map(draft => draft.matter || isMatterTitle(draft.title) || isImageOnly(draft.paragraphs)),
+      bodyStartIndex >= 0 ? bodyStartIndex : null
+    );
+
+    return kept.map((draft, index) => this.toChapter(draft, index, matter[index], notes));
+  }
+
+  private toChapter(draft: ChapterDraft, index: number, matter: ChapterMatter, notes: Record<string, string>): Chapter {
+    return {
+      index,
+      title: draft.title,
+      depth: draft.depth,
+      matter,
+      paragraphs: draft.paragraphs.map(paragraph => this.dropUnknownNotes(paragraph, notes)),
+    };
+  }
 
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(html, 'text/html');
+  // Markers whose note body hasn't turned up are dropped. Drafts are left
+  // alone, since progress reports see notes before the whole book is read.
+  private dropUnknownNotes(paragraph: Paragraph, notes: Record<string, string>): Paragraph {
+    if (!paragraph.notes) return paragraph;
+    const refs = paragraph.notes.filter(ref => ref.noteId in notes);
+    if (refs.length === paragraph.notes.length) return paragraph;
 
-      const paragraphs: Paragraph[] = [];
-      const elements = doc.querySelectorAll('p, h1, h2, h3, h4, h5, h6');
+    const filtered: Paragraph = { ...paragraph, notes: refs };
+    if (refs.length === 0) delete filtered.notes;
+    return filtered;
+  }
 
-      elements.forEach((el: Element) => {
-        // Skip elements that contain other block elements (avoid duplicates)
-        if (el.querySelector('p, h1, h2, h3, h4, h5, h6')) {
-          return;
+  private citedNotes(chapters: Chapter[], notes: Record<string, string>): Record<string, string> {
+    const cited: Record<string, string> = {};
+    for (const chapter of chapters) {
+      for (const paragraph of chapter.paragraphs) {
+        for (const ref of paragraph.notes ?? []) {
+          cited[ref.noteId] = notes[ref.noteId];
         }
+      }
+    }
+    return cited;
+  }
 
-        const text = el.textContent?.trim();
-        if (text && text.length > 0) {
-          const paragraph = processParagraph(text, el.tagName.toLowerCase());
-          if (paragraph.words.length > 0) {
-            paragraphs.push(paragraph);
-          }
+  // Convert marker character offsets into the index of the word before them
+  private placeNoteRefs(text: string, refs: TextNoteRef[], language: string): Paragraph['notes'] {
+    return refs.map(ref => ({
+      wordIndex: Math.max(0, processText(text.slice(0, ref.offset), language).length - 1),
+      noteId: ref.noteId,
+      label: ref.label,
+    }));
+  }
+
+  // Flag words that overlap formatted runs of the block text. Words are
+  // found by scanning forward, since tokens are slices of the text.
+  private applyStyles(text: string, words: ProcessedWord[], spans: TextStyleSpan[]): void {
+    let cursor = 0;
+    for (const word of words) {
+      const found = text.indexOf(word.text, cursor);
+      const start = found >= 0 ? found : cursor;
+      const end = start + word.text.length;
+      cursor = end;
+
+      for (const span of spans) {
+        if (span.start < end && span.end > start) {
+          word.style = { ...word.style, [span.style]: true };
         }
-      });
+      }
+    }
+  }
 
-      const title = this.findChapterTitle(doc, index);
+  // Match TOC entries to spine positions, in reading order
+  private locateToc(archive: EpubArchive, toc: TocEntry[]): ChapterStart[] {
+    const spineIndexByPath = new Map(archive.spine.map((item, i) => [item.path, i]));
+    const starts: ChapterStart[] = [];
 
-      return { index, title, paragraphs };
-    } catch (err) {
-      console.error(`Error loading chapter ${index}:`, err);
-      return { index, title: `Chapter ${index + 1}`, paragraphs: [] };
+    for (const entry of toc) {
+      const spineIndex = spineIndexByPath.get(entry.path);
+      if (spineIndex !== undefined) {
+        starts.push({ spineIndex, entry });
+      }
     }
+
+    // Stable sort keeps TOC order within a file
+    return starts.sort((a, b) => a.spineIndex - b.spineIndex);
+  }
+
+  // Index of the first block at or containing the fragment's target element.
+  // Unknown fragments start at the top of the file.
+  private findBlockIndex(doc: Document, blocks: TextBlock[], fragment: string): number {
+    if (!doc.getElementById(fragment)) return 0;
+    const index = blocks.findIndex(block => block.ids.includes(fragment));
+    return index >= 0 ? index : blocks.length;
   }
 
   private findChapterTitle(doc: Document, index: number): string {
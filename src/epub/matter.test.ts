@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createDocumentParser } from './archive';
+import { assignMatter, isImageOnly, isLinkList, isMatterDocument, isMatterTitle } from './matter';
+import { processParagraph } from '../rsvp/word-processor';
+import { xhtml } from '../test/helpers';
+
+function parse(body: string, bodyAttributes = ''): Document {
+  return createDocumentParser().parseFromString(xhtml(body, bodyAttributes), 'text/html');
+}
+
+describe('isMatterDocument', () => {
+  it('follows epub:type on the body', () => {
+    expect(isMatterDocument(parse('<p>All rights reserved.</p>', 'epub:type="copyright-page"'))).toBe(true);
+    expect(isMatterDocument(parse('<p>Text.</p>', 'epub:type="frontmatter dedication"'))).toBe(true);
+    expect(isMatterDocument(parse('<p>Text.</p>', 'epub:type="bodymatter chapter"'))).toBe(false);
+    expect(isMatterDocument(parse('<p>Text.</p>'))).toBe(false);
+  });
+
+  it('needs every top-level section to be matter', () => {
+    const copyright = '<section epub:type="copyright-page"><p>All rights reserved.</p></section>';
+    const dedication = '<section epub:type="dedication"><p>For Ann.</p></section>';
+    const chapter = '<section epub:type="chapter"><p>It began.</p></section>';
+    expect(isMatterDocument(parse(copyright + dedication))).toBe(true);
+    expect(isMatterDocument(parse(copyright + chapter))).toBe(false);
+  });
+});
+
+describe('isLinkList', () => {
+  it('takes pages that are mostly links as printed contents', () => {
+    const toc = '<h1>Contents</h1><p><a href="a.xhtml">The Road North</a></p><p><a href="b.xhtml">Winter</a></p><p><a href="c.xhtml">Home Again</a></p>';
+    expect(isLinkList(parse(toc))).toBe(true);
+  });
+
+  it('leaves text with a few links in it alone', () => {
+    const text = '<p>See <a href="a.xhtml">one</a>, <a href="b.xhtml">two</a> and <a href="c.xhtml">three</a> for the longer account of what happened that year.</p>';
+    expect(isLinkList(parse(text))).toBe(false);
+    // Too few links to be a list, however dense
+    expect(isLinkList(parse('<p><a href="a.xhtml">One</a> <a href="b.xhtml">Two</a></p>'))).toBe(false);
+    expect(isLinkList(parse(''))).toBe(false);
+  });
+});
+
+describe('isMatterTitle', () => {
+  it.each([
+    'Cover', 'Title Page', 'Copyright', 'Table of Contents', 'Contents', 'Also by Jane Doe',
+    'About the Author', 'Acknowledgements', 'Acknowledgments', 'Index', '  Notes ', 'Endnotes',
+  ])('matches %j', title => {
+    expect(isMatterTitle(title)).toBe(true);
+  });
+
+  it.each(['Chapter 1', 'Notes from Underground', 'The Index Card', 'Contents of the Box'])('does not match %j', title => {
+    expect(isMatterTitle(title)).toBe(false);
+  });
+});
+
+describe('isImageOnly', () => {
+  const image = { ...processParagraph('[Image]', 'img', 'en'), image: { src: 'cover.jpg', alt: '', caption: '' } };
+
+  it('takes pages of nothing but images', () => {
+    expect(isImageOnly([image])).toBe(true);
+    expect(isImageOnly([image, processParagraph('A caption.', 'p', 'en')])).toBe(false);
+    expect(isImageOnly([])).toBe(false);
+  });
+});
+
+describe('assignMatter', () => {
+  it('makes the leading and trailing runs of flagged chapters front and back matter', () => {
+    expect(assignMatter([true, true, false, false, true], null)).toEqual(['front', 'front', 'body', 'body', 'back']);
+  });
+
+  it('keeps flagged chapters between body chapters as body', () => {
+    expect(assignMatter([false, true, false, true], null)).toEqual(['body', 'body', 'body', 'back']);
+  });
+
+  it('makes everything before the book’s own body start front matter', () => {
+    expect(assignMatter([true, false, false, false], 2)).toEqual(['front', 'front', 'body', 'body']);
+    // Even a flagged start
+    expect(assignMatter([true, true, false], 1)).toEqual(['front', 'body', 'body']);
+  });
+
+  it('reads everything when nothing looks like body text', () => {
+    expect(assignMatter([true, true], null)).toEqual(['body', 'body']);
+    expect(assignMatter([], null)).toEqual([]);
+  });
+});
@@ -0,0 +1,92 @@
+import type { ChapterMatter, Paragraph } from '../types';
+
+// Front and back matter detection. Chapters are flagged as matter from the
+// book's own markup (epub:type, landmarks, guide) or by heuristics (title,
+// a page that's mostly links, a lone image); the leading and trailing runs
+// of flagged chapters become front and back matter. Flagged chapters
+// between body chapters stay body, since skipping text mid-book is worse
+// than reading a stray page.
+
+// EPUB 3 structural semantics (and normalized guide types) for pages that
+// aren't part of the reading text
+export const MATTER_TYPES = new Set([
+  'cover',
+  'frontmatter',
+  'titlepage',
+  'halftitlepage',
+  'copyright-page',
+  'imprint',
+  'dedication',
+  'toc',
+  'loi',
+  'lot',
+  'backmatter',
+  'index',
+  'colophon',
+  'bibliography',
+  'endnotes',
+  'rearnotes',
+  'acknowledgments',
+  'other-credits',
+]);
+
+const MATTER_TITLES = new RegExp(
+  '^(?:cover|title page|half title|copyright(?: page)?|imprint|dedication|' +
+  '(?:table of )?contents|also by .*|(?:other )?books by .*|praise for .*|' +
+  'about the (?:author|authors|publisher)|acknowledge?ments|index|colophon|' +
+  'newsletter|credits|bibliography|(?:end)?notes|a note on the type)$',
+  'i'
+);
+
+// Share of a page's text inside links for it to count as a printed contents page
+const LINK_DENSITY = 0.6;
+const MIN_LINKS = 3;
+
+function epubTypes(el: Element): string[] {
+  return (el.getAttribute('epub:type') ?? '').split(/\s+/).filter(Boolean);
+}
+
+// The document's body, or every top-level section in it, is marked as matter
+export function isMatterDocument(doc: Document): boolean {
+  const body = doc.body;
+  if (!body) return false;
+  if (epubTypes(body).some(type => MATTER_TYPES.has(type))) return true;
+
+  const sections = Array.from(body.children).filter(el => el.localName.toLowerCase() === 'section');
+  return sections.length > 0 && sections.every(section => epubTypes(section).some(type => MATTER_TYPES.has(type)));
+}
+
+// Printed tables of contents, lists of other titles and the like
+export function isLinkList(doc: Document): boolean {
+  const textLength = (doc.body?.textContent ?? '').replace(/\s+/g, '').length;
+  const links = Array.from(doc.querySelectorAll('a[href]'));
+  if (textLength === 0 || links.length < MIN_LINKS) return false;
+
+  const linkLength = links.reduce((sum, link) => sum + (link.textContent ?? '').replace(/\s+/g, '').length, 0);
+  return linkLength / textLength >= LINK_DENSITY;
+}
+
+export function isMatterTitle(title: string): boolean {
+  return MATTER_TITLES.test(title.trim());
+}
+
+// Covers and other image-only pages
+export function isImageOnly(paragraphs: Paragraph[]): boolean {
+  return paragraphs.length > 0 && paragraphs.every(paragraph => paragraph.image);
+}
+
+// Matter for each chapter from its flag. `bodyStart` is the chapter the
+// book says its text begins at, if it says; everything before that is
+// front matter whatever its flag.
+export function assignMatter(flagged: boolean[], bodyStart: number | null): ChapterMatter[] {
+  const first = bodyStart ?? flagged.indexOf(false);
+  const last = flagged.lastIndexOf(false);
+  // Nothing looks like body text, so don't guess
+  if (first < 0 || last < 0) return flagged.map(() => 'body');
+
+  return flagged.map((_, i) => {
+    if (i < first) return 'front';
+    if (i > last && i > first) return 'back';
+    return 'body';
+  });
+}
@@ -0,0 +1,134 @@
+import { escapeHtml, htmlDocument } from './html';
+import type { DocumentMetadata } from './metadata';
+
+// FictionBook 2: an XML book with nested <section>s, each optionally
+// titled. Sections become headings nested by depth, and the "notes" body
+// becomes footnotes, so the result reads like any other HTML import.
+
+const INLINE_TAGS: Record<string, string> = {
+  emphasis: 'em',
+  strong: 'strong',
+  code: 'code',
+};
+
+// Bodies holding notes and comments rather than the book text
+const NOTE_BODIES = new Set(['notes', 'comments']);
+
+// Child elements by local name, since FB2 files may or may not use a prefix
+function children(parent: Element, name?: string): Element[] {
+  return Array.from(parent.children).filter(el => name === undefined || el.localName === name);
+}
+
+function child(parent: Element | undefined, name: string): Element | undefined {
+  return parent ? children(parent, name)[0] : undefined;
+}
+
+// Links use l:href or xlink:href depending on how the namespace is bound
+function getHref(el: Element): string | null {
+  const attr = Array.from(el.attributes).find(a => a.name === 'href' || a.name.endsWith(':href'));
+  return attr?.value ?? null;
+}
+
+function text(el: Element | undefined): string {
+  return el?.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+}
+
+function renderInline(el: Element): string {
+  let html = '';
+  for (const node of Array.from(el.childNodes)) {
+    if (node.nodeType === 3) {
+      html += escapeHtml(node.textContent ?? '');
+      continue;
+    }
+    if (node.nodeType !== 1) continue;
+
+    const element = node as Element;
+    const name = element.localName;
+    const href = getHref(element);
+    if (name === 'a' && element.getAttribute('type') === 'note' && href?.startsWith('#')) {
+      html += `<sup><a role="doc-noteref" href="${escapeHtml(href)}">${escapeHtml(text(element))}</a></sup>`;
+    } else if (name in INLINE_TAGS) {
+      html += `<${INLINE_TAGS[name]}>${renderInline(element)}</${INLINE_TAGS[name]}>`;
+    } else if (name !== 'image') {
+      html += renderInline(element);
+    }
+  }
+  return html;
+}
+
+// A section title's lines ("Chapter 1", "The Beginning") as one heading
+function renderTitle(title: Element, depth: number): string {
+  const tag = `h${Math.min(depth, 6)}`;
+  const lines = children(title, 'p').map(renderInline).filter(line => line.trim());
+  return lines.length > 0 ? `<${tag}>${lines.join(' — ')}</${tag}>` : '';
+}
+
+function renderBlocks(parent: Element, depth: number): string {
+  let html = '';
+  for (const el of children(parent)) {
+    switch (el.localName) {
+      case 'section':
+        html += renderBlocks(el, depth + 1);
+        break;
+      case 'title':
+        // Sections are titled; a body title is usually the book title and author
+        html += depth > 0 ? renderTitle(el, depth) : renderBlocks(el, depth);
+        break;
+      case 'p':
+      case 'subtitle':
+      case 'text-author':
+        html += `<p>${renderInline(el)}</p>`;
+        break;
+      case 'poem':
+      case 'cite':
+      case 'epigraph':
+        html += `<blockquote>${renderBlocks(el, depth)}</blockquote>`;
+        break;
+      case 'stanza':
+        html += `<p>${children(el, 'v').map(renderInline).join('<br>')}</p>`;
+        break;
+      case 'table':
+        html += `<table>${children(el, 'tr').map(row =>
+          `<tr>${children(row).map(cell => `<td>${renderInline(cell)}</td>`).join('')}</tr>`
+        ).join('')}</table>`;
+        break;
+    }
+  }
+  return html;
+}
+
+// Each note is a section with an id, usually titled with its number
+function renderNotes(body: Element): string {
+  let html = '';
+  for (const section of children(body, 'section')) {
+    const id = section.getAttribute('id');
+    if (id) {
+      const paragraphs = children(section).filter(el => el.localName !== 'title');
+      html += `<aside role="doc-footnote" id="${escapeHtml(id)}">${paragraphs.map(renderInline).join(' ')}</aside>`;
+    }
+    html += renderNotes(section);
+  }
+  return html;
+}
+
+export function readFb2Metadata(doc: Document): DocumentMetadata {
+  const titleInfo = child(child(doc.documentElement, 'description'), 'title-info');
+  const authors = titleInfo ? children(titleInfo, 'author').map(author => {
+    const name = ['first-name', 'middle-name', 'last-name'].map(part => text(child(author, part))).filter(Boolean);
+    return name.length > 0 ? name.join(' ') : text(child(author, 'nickname'));
+  }).filter(Boolean) : [];
+
+  return {
+    title: text(child(titleInfo, 'book-title')) || null,
+    author: authors.length > 0 ? authors.join(', ') : null,
+    language: text(child(titleInfo, 'lang')) || null,
+  };
+}
+
+export function fb2ToHtml(doc: Document): string {
+  let html = '';
+  for (const body of children(doc.documentElement, 'body')) {
+    html += NOTE_BODIES.has(body.getAttribute('name') ?? '') ? renderNotes(body) : renderBlocks(body, 0);
+  }
+  return htmlDocument(html);
+}
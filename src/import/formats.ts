@@ -0,0 +1,51 @@
+import type { BookFormat } from '../types';
+
+const FORMATS_BY_EXTENSION: Record<string, BookFormat> = {
+  epub: 'epub',
+  txt: 'txt',
+  text: 'txt',
+  md: 'md',
+  markdown: 'md',
+  html: 'html',
+  htm: 'html',
+  xhtml: 'html',
+  mobi: 'mobi',
+  prc: 'mobi',
+  azw: 'mobi',
+  azw3: 'azw3',
+  fb2: 'fb2',
+};
+
+export const BOOK_FORMAT_MEDIA_TYPES: Record<BookFormat, string> = {
+  epub: 'application/epub+zip',
+  txt: 'text/plain; charset=utf-8',
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  mobi: 'application/x-mobipocket-ebook',
+  azw3: 'application/vnd.amazon.ebook',
+  fb2: 'application/x-fictionbook+xml',
+};
+
+export const BOOK_FORMATS = Object.keys(BOOK_FORMAT_MEDIA_TYPES) as BookFormat[];
+
+export function isBookFormat(value: unknown): value is BookFormat {
+  return typeof value === 'string' && (BOOK_FORMATS as string[]).includes(value);
+}
+
+// For file inputs: ".epub,.txt,..."
+export const UPLOAD_ACCEPT = Object.keys(FORMATS_BY_EXTENSION).map(ext => `.${ext}`).join(',');
+
+// Format of an uploaded file by its extension, or null if unsupported
+export function getBookFormat(filename: string): BookFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return filename.includes('.') ? FORMATS_BY_EXTENSION[extension] ?? null : null;
+}
+
+// A file that is in a supported format but can't be read, e.g. because it's
+// encrypted. The message is meant for the user.
+export class UnsupportedBookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedBookError';
+  }
+}
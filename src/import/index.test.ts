@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { importDocument, readDocumentMetadata } from './index';
+import { UnsupportedBookError } from './formats';
+import { createDocumentParser } from '../epub/archive';
+import type { ProcessedBook } from '../types';
+
+// Small hand-built books: a PalmDOC-compressed MOBI spread over several
+// text records, a KF8 (AZW3) file with its flows, a windows-1251 FB2 with
+// nested sections and notes, and MOBIs that can't be read
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+function load(name: string): Uint8Array {
+  return new Uint8Array(fs.readFileSync(path.join(FIXTURES, name)));
+}
+
+// Each chapter as its title and the text of its paragraphs
+function outline(book: ProcessedBook): [string, string[]][] {
+  return book.chapters.map(chapter => [
+    chapter.title,
+    chapter.paragraphs.map(paragraph => paragraph.words.map(word => word.text).join(' ')),
+  ]);
+}
+
+describe('importDocument', () => {
+  it('reads a MOBI', () => {
+    const book = importDocument('mobi', load('sample.mobi'), createDocumentParser(), 'sample.mobi');
+    expect(book).toMatchObject({ title: 'Updated Title', author: 'Ann Author', language: 'en' });
+
+    const chapters = outline(book);
+    expect(chapters.map(([title]) => title)).toEqual(['Chapter 1', 'Chapter 2', 'Chapter 3']);
+    // Text from the last record decompresses as cleanly as the first
+    for (const [title, paragraphs] of chapters) {
+      expect(paragraphs).toHaveLength(31);
+      expect(paragraphs[30]).toBe(
+        `Paragraph 29 of ${title.toLowerCase()} has italic words and café naïve text, repeated repeated repeated.`
+      );
+    }
+    expect(book.chapters[0].paragraphs[1].words[6]).toMatchObject({ text: 'italic', style: { italic: true } });
+  });
+
+  it('reads an AZW3 without its stylesheet flows', () => {
+    const book = importDocument('azw3', load('sample.azw3'), createDocumentParser(), 'sample.azw3');
+    expect(outline(book)).toEqual([
+      ['Part One', ['Part One', 'KF8 text here.']],
+      ['Part Two', ['Part Two', 'More text.']],
+    ]);
+  });
+
+  it('reads an FB2 with nested sections and notes', () => {
+    const book = importDocument('fb2', load('sample.fb2'), createDocumentParser(), 'sample.fb2');
+    expect(book).toMatchObject({ title: 'Тест книга', author: 'Лев Толстой', language: 'ru' });
+    expect(book.chapters.map(chapter => [chapter.depth, chapter.title])).toEqual([
+      [0, 'Тест книга'],
+      [0, 'Часть 1 — Начало'],
+      [1, 'Глава 1'],
+      [0, 'Часть 2'],
+    ]);
+    expect(outline(book)[2][1]).toEqual(['Глава 1', 'Second level.', 'Line one', 'Line two']);
+
+    const withNote = book.chapters[1].paragraphs[2];
+    expect(withNote.words.map(word => word.text).join(' ')).toBe('Первый абзац текста.');
+    expect(withNote.notes).toEqual([{ wordIndex: 2, noteId: 'document.html#n1', label: '1' }]);
+    expect(book.notes).toEqual({ 'document.html#n1': 'The note text.' });
+  });
+
+  it.each([
+    ['encrypted.mobi', /DRM/],
+    ['huffcdic.mobi', /HUFF\/CDIC/],
+  ])('rejects %s', (name, message) => {
+    const data = load(name);
+    expect(() => importDocument('mobi', data, createDocumentParser(), name)).toThrow(UnsupportedBookError);
+    expect(() => importDocument('mobi', data, createDocumentParser(), name)).toThrow(message);
+    expect(() => readDocumentMetadata('mobi', data, createDocumentParser())).toThrow(UnsupportedBookError);
+  });
+
+  it('rejects files that aren\'t MOBIs', () => {
+    expect(() => importDocument('mobi', load('sample.fb2'), createDocumentParser(), 'sample.mobi')).toThrow(UnsupportedBookError);
+  });
+});
+
+describe('readDocumentMetadata', () => {
+  it.each([
+    ['sample.mobi', 'mobi', { title: 'Updated Title', author: 'Ann Author', language: 'en' }],
+    ['sample.azw3', 'azw3', { title: 'Updated Title', author: 'Ann Author', language: 'en' }],
+    ['sample.fb2', 'fb2', { title: 'Тест книга', author: 'Лев Толстой', language: 'ru' }],
+  ] as const)('reads %s', (name, format, metadata) => {
+    expect(readDocumentMetadata(format, load(name), createDocumentParser())).toEqual(metadata);
+  });
+});
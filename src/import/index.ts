@@ -0,0 +1,103 @@
+import type { BookFormat, ProcessedBook } from '../types';
+import type { DocumentParser } from '../epub/archive';
+import { TextExtractor } from '../epub/extractor';
+import { fb2ToHtml, readFb2Metadata } from './fb2';
+import { markdownToHtml } from './markdown';
+import { readGutenbergHeader, readHtmlMetadata, splitFrontMatter } from './metadata';
+import type { DocumentMetadata } from './metadata';
+import { mobiToHtml, readMobiMetadata } from './mobi';
+import { textToHtml } from './text';
+
+// Importers for single-file documents. Text, Markdown, MOBI and FB2 are
+// converted to HTML, and every format then goes through the same extractor
+// as EPUB content documents.
+
+export type DocumentFormat = Exclude<BookFormat, 'epub'>;
+
+interface ParsedDocument {
+  doc: Document;
+  metadata: DocumentMetadata;
+}
+
+// UTF-8, falling back to Windows-1252 for older files that aren't valid UTF-8
+export function decodeText(data: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('windows-1252').decode(data);
+  }
+}
+
+// XML files declare their encoding (FB2 is often windows-1251)
+function decodeXml(data: Uint8Array): string {
+  const prolog = new TextDecoder('latin1').decode(data.subarray(0, 200));
+  const declared = prolog.match(/^\s*<\?xml[^>]*encoding=["']([\w.-]+)["']/)?.[1];
+  if (declared) {
+    try {
+      return new TextDecoder(declared).decode(data);
+    } catch {
+      // Unknown encoding label
+    }
+  }
+  return decodeText(data);
+}
+
+function parseDocument(format: DocumentFormat, data: Uint8Array, parser: DocumentParser): ParsedDocument {
+  if (format === 'mobi' || format === 'azw3') {
+    return { doc: parser.parseFromString(mobiToHtml(data), 'text/html'), metadata: readMobiMetadata(data) };
+  }
+
+  if (format === 'fb2') {
+    const xml = parser.parseFromString(decodeXml(data), 'application/xml');
+    return { doc: parser.parseFromString(fb2ToHtml(xml), 'text/html'), metadata: readFb2Metadata(xml) };
+  }
+
+  const text = decodeText(data);
+
+  if (format === 'html') {
+    const doc = parser.parseFromString(text, 'text/html');
+    return { doc, metadata: readHtmlMetadata(doc) };
+  }
+
+  const { metadata, body } = splitFrontMatter(text);
+  if (format === 'md') {
+    return { doc: parser.parseFromString(markdownToHtml(body), 'text/html'), metadata };
+  }
+
+  const header = readGutenbergHeader(body);
+  return {
+    doc: parser.parseFromString(textToHtml(body), 'text/html'),
+    metadata: {
+      title: metadata.title ?? header.title,
+      author: metadata.author ?? header.author,
+      language: metadata.language ?? header.language,
+    },
+  };
+}
+
+export function readDocumentMetadata(
+  format: DocumentFormat,
+  data: Uint8Array,
+  parser: DocumentParser
+): DocumentMetadata {
+  // Skip decompressing the whole book just for its header
+  if (format === 'mobi' || format === 'azw3') {
+    return readMobiMetadata(data);
+  }
+  return parseDocument(format, data, parser).metadata;
+}
+
+// Untitled documents are named after their file
+export function importDocument(
+  format: DocumentFormat,
+  data: Uint8Array,
+  parser: DocumentParser,
+  filename: string
+): ProcessedBook {
+  const { doc, metadata } = parseDocument(format, data, parser);
+  return new TextExtractor().extractDocument(doc, {
+    title: metadata.title || filename.replace(/\.[^.]+$/, '') || 'Untitled',
+    author: metadata.author || 'Unknown',
+    language: metadata.language ?? '',
+  });
+}
@@ -0,0 +1,148 @@
+import { escapeHtml, htmlDocument } from './html';
+
+// A small Markdown converter covering what matters for reading: headings,
+// paragraphs, lists, quotes, code, emphasis and footnotes. Links keep their
+// text, images are dropped and raw HTML is shown as written.
+
+interface ListDraft {
+  ordered: boolean;
+  items: string[];
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE = /^\s{0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const FOOTNOTE_DEFINITION = /^\s{0,3}\[\^([^\]]+)\]:\s*(.*)$/;
+
+function renderEmphasis(text: string): string {
+  return escapeHtml(text)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[\^([^\]]+)\]/g, '<sup><a role="doc-noteref" href="#fn-$1">$1</a></sup>')
+    .replace(/\[([^\]]+)\](?:\([^)]*\)|\[[^\]]*\])/g, '$1')
+    .replace(/\*\*(?=\S)(.*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|\W)__(?=\S)(.*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)(.*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|\W)_(?=\S)(.*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(.+?)~~/g, '$1');
+}
+
+// Inline markup; code spans are taken literally
+function renderInline(text: string): string {
+  return text
+    .split(/`([^`]+)`/)
+    .map((part, i) => (i % 2 === 1 ? `<code>${escapeHtml(part)}</code>` : renderEmphasis(part)))
+    .join('');
+}
+
+function renderBlocks(lines: string[]): string {
+  const out: string[] = [];
+  let paragraph: string[] = [];
+  let list: ListDraft | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      out.push(`<p>${renderInline(paragraph.join(' '))}</p>`);
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      const tag = list.ordered ? 'ol' : 'ul';
+      out.push(`<${tag}>${list.items.map(item => `<li>${renderInline(item)}</li>`).join('')}</${tag}>`);
+      list = null;
+    }
+  };
+  const flush = () => {
+    flushParagraph();
+    flushList();
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      flush();
+      const code: string[] = [];
+      for (i++; i < lines.length && !lines[i].trimStart().startsWith(fence[1]); i++) {
+        code.push(lines[i]);
+      }
+      out.push(`<pre>${escapeHtml(code.join('\n'))}</pre>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    // "Title" underlined with === or --- (checked before --- as a break)
+    const underline = line.match(SETEXT_UNDERLINE);
+    if (underline && paragraph.length > 0) {
+      const level = underline[1][0] === '=' ? 1 : 2;
+      out.push(`<h${level}>${renderInline(paragraph.join(' '))}</h${level}>`);
+      paragraph = [];
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      out.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      continue;
+    }
+
+    if (THEMATIC_BREAK.test(line)) {
+      flush();
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      flush();
+      const quoted: string[] = [];
+      for (; i < lines.length && BLOCKQUOTE.test(lines[i]); i++) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+      }
+      i--;
+      out.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+      continue;
+    }
+
+    const footnote = line.match(FOOTNOTE_DEFINITION);
+    if (footnote) {
+      flush();
+      out.push(`<aside role="doc-footnote" id="fn-${escapeHtml(footnote[1])}">${renderInline(footnote[2])}</aside>`);
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flushParagraph();
+      const ordered = /\d/.test(item[1]);
+      if (list && list.ordered !== ordered) flushList();
+      list ??= { ordered, items: [] };
+      list.items.push(item[2]);
+      continue;
+    }
+
+    // Indented lines continue the last list item
+    if (list && /^\s+\S/.test(line)) {
+      list.items[list.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+
+    flushList();
+    paragraph.push(line.trim());
+  }
+
+  flush();
+  return out.join('\n');
+}
+
+export function markdownToHtml(markdown: string): string {
+  return htmlDocument(renderBlocks(markdown.replace(/\r\n?/g, '\n').split('\n')));
+}
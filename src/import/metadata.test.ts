@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { readGutenbergHeader, splitFrontMatter } from './metadata';
+
+describe('readGutenbergHeader', () => {
+  it('reads the title, author and language', () => {
+    const header = [
+      'The Project Gutenberg eBook of Moby Dick; Or, The Whale',
+      '',
+      'Title: Moby Dick; Or, The Whale',
+      'Author: Herman Melville',
+      'Release date: June 1, 2001 [eBook #2701]',
+      'Language: English',
+    ].join('\n');
+    expect(readGutenbergHeader(header)).toEqual({
+      title: 'Moby Dick; Or, The Whale',
+      author: 'Herman Melville',
+      language: 'en',
+    });
+  });
+
+  it.each([
+    ['English', 'en'],
+    ['french', 'fr'],
+    ['German', 'de'],
+    ['Chinese', 'zh'],
+    ['English, French', 'en'],
+    ['Spanish and English', 'es'],
+    ['en-GB', 'en-GB'],
+    ['Klingon', null],
+  ])('maps "Language: %s" to %s', (name, tag) => {
+    expect(readGutenbergHeader(`Language: ${name}`).language).toBe(tag);
+  });
+});
+
+describe('splitFrontMatter', () => {
+  it('reads language tags and names alike', () => {
+    expect(splitFrontMatter('---\nlang: pt-BR\n---\nText').metadata.language).toBe('pt-BR');
+    expect(splitFrontMatter('---\nlanguage: Italian\n---\nText').metadata.language).toBe('it');
+  });
+});
@@ -0,0 +1,85 @@
+// Title, author and language of a standalone document, from Markdown/text
+// front matter, a Project Gutenberg header, or HTML <title> and <meta> tags
+
+export interface DocumentMetadata {
+  title: string | null;
+  author: string | null;
+  language: string | null;
+}
+
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+const GUTENBERG_HEADER_LINES = 60;
+const LANGUAGE_TAG = /^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i;
+
+// BCP 47 tags for the language names Project Gutenberg headers use
+const LANGUAGE_NAMES: Record<string, string> = {
+  afrikaans: 'af', arabic: 'ar', bulgarian: 'bg', catalan: 'ca', chinese: 'zh', czech: 'cs',
+  danish: 'da', dutch: 'nl', english: 'en', esperanto: 'eo', estonian: 'et', finnish: 'fi',
+  french: 'fr', galician: 'gl', german: 'de', greek: 'el', hebrew: 'he', hindi: 'hi',
+  hungarian: 'hu', icelandic: 'is', irish: 'ga', italian: 'it', japanese: 'ja', korean: 'ko',
+  latin: 'la', latvian: 'lv', lithuanian: 'lt', norwegian: 'no', persian: 'fa', polish: 'pl',
+  portuguese: 'pt', romanian: 'ro', russian: 'ru', sanskrit: 'sa', serbian: 'sr', slovak: 'sk',
+  slovenian: 'sl', spanish: 'es', swedish: 'sv', tagalog: 'tl', thai: 'th', turkish: 'tr',
+  ukrainian: 'uk', vietnamese: 'vi', welsh: 'cy', yiddish: 'yi',
+};
+
+// A language tag ("en-GB") as is, or a language name ("English") as its tag.
+// Of several languages ("English, French") the first is taken.
+function toLanguageTag(value: string): string | null {
+  const first = value.split(/[,;/]|\s+and\s+/i)[0].trim();
+  return LANGUAGE_NAMES[first.toLowerCase()] ?? (LANGUAGE_TAG.test(first) ? first : null);
+}
+
+function emptyMetadata(): DocumentMetadata {
+  return { title: null, author: null, language: null };
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"])(.*)\1$/, '$2').trim();
+}
+
+// "key: value" lines into metadata; unknown keys are ignored
+function readFields(lines: string[]): DocumentMetadata {
+  const metadata = emptyMetadata();
+  for (const line of lines) {
+    const match = line.match(/^\s*([A-Za-z_-]+)\s*:\s*(.+)$/);
+    if (!match) continue;
+    const key = match[1].toLowerCase();
+    const value = unquote(match[2]);
+    if (!value) continue;
+
+    if (key === 'title') metadata.title ??= value;
+    else if (key === 'author' || key === 'authors' || key === 'creator') metadata.author ??= value;
+    else if (key === 'lang' || key === 'language') metadata.language ??= toLanguageTag(value);
+  }
+  return metadata;
+}
+
+// Split YAML-style front matter off the top of a text or Markdown file. Only
+// flat "key: value" pairs are read.
+export function splitFrontMatter(text: string): { metadata: DocumentMetadata; body: string } {
+  const match = text.match(FRONT_MATTER);
+  if (!match) {
+    return { metadata: emptyMetadata(), body: text };
+  }
+  return { metadata: readFields(match[1].split(/\r?\n/)), body: text.slice(match[0].length) };
+}
+
+// Project Gutenberg files list "Title:", "Author:" and "Language:" in their header
+export function readGutenbergHeader(text: string): DocumentMetadata {
+  return readFields(text.split(/\r?\n/, GUTENBERG_HEADER_LINES));
+}
+
+export function readHtmlMetadata(doc: Document): DocumentMetadata {
+  const meta = (name: string) => {
+    const el = Array.from(doc.querySelectorAll('meta'))
+      .find(m => (m.getAttribute('name') ?? '').toLowerCase() === name);
+    return el?.getAttribute('content')?.trim() || null;
+  };
+
+  return {
+    title: doc.querySelector('title')?.textContent?.trim() || meta('dc.title'),
+    author: meta('author') ?? meta('dc.creator'),
+    language: doc.documentElement?.getAttribute('lang')?.trim() || meta('dc.language'),
+  };
+}
@@ -0,0 +1,214 @@
+import { htmlDocument } from './html';
+import { UnsupportedBookError } from './formats';
+import type { DocumentMetadata } from './metadata';
+
+// MOBI and AZW3 (KF8) books: a Palm database whose first record holds the
+// PalmDOC and MOBI headers, followed by compressed text records. The text
+// is HTML (KF8 stores it as skeleton files followed by the fragments that
+// fill them, which is still in reading order), so it goes through the same
+// extractor as other HTML imports.
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PALMDOC = 2;
+const COMPRESSION_HUFF_CDIC = 17480;
+
+const ENCODING_UTF8 = 65001;
+const NO_RECORD = 0xffffffff;
+
+// EXTH metadata record types
+const EXTH_AUTHOR = 100;
+const EXTH_LANGUAGE = 524;
+const EXTH_UPDATED_TITLE = 503;
+
+interface MobiHeader {
+  records: Uint8Array[];
+  compression: number;
+  textLength: number;
+  textRecordCount: number;
+  encoding: string;
+  // Flags for the extra bytes trailing each text record
+  extraDataFlags: number;
+  fdstIndex: number;
+  fullName: string | null;
+  exth: Map<number, Uint8Array[]>;
+}
+
+function readAscii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function view(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
+
+// Split a Palm database into its records
+function readRecords(data: Uint8Array): Uint8Array[] {
+  if (data.length < 78 || readAscii(data, 60, 8) !== 'BOOKMOBI') {
+    throw new UnsupportedBookError('Not a MOBI or AZW3 file');
+  }
+
+  const header = view(data);
+  const count = header.getUint16(76);
+  const offsets: number[] = [];
+  for (let i = 0; i < count; i++) {
+    offsets.push(header.getUint32(78 + i * 8));
+  }
+  return offsets.map((start, i) => data.subarray(start, offsets[i + 1] ?? data.length));
+}
+
+function readExth(record: Uint8Array, offset: number): Map<number, Uint8Array[]> {
+  const exth = new Map<number, Uint8Array[]>();
+  if (readAscii(record, offset, 4) !== 'EXTH') return exth;
+
+  const header = view(record);
+  const count = header.getUint32(offset + 8);
+  let position = offset + 12;
+  for (let i = 0; i < count && position + 8 <= record.length; i++) {
+    const type = header.getUint32(position);
+    const length = header.getUint32(position + 4);
+    if (length < 8) break;
+    exth.set(type, [...(exth.get(type) ?? []), record.subarray(position + 8, position + length)]);
+    position += length;
+  }
+  return exth;
+}
+
+function readHeader(data: Uint8Array): MobiHeader {
+  const records = readRecords(data);
+  const record = records[0];
+  if (!record || record.length < 132 || readAscii(record, 16, 4) !== 'MOBI') {
+    throw new UnsupportedBookError('Not a MOBI or AZW3 file');
+  }
+
+  const header = view(record);
+  if (header.getUint16(12) !== 0) {
+    throw new UnsupportedBookError('This book is DRM-protected and can\'t be imported');
+  }
+
+  const compression = header.getUint16(0);
+  if (compression === COMPRESSION_HUFF_CDIC) {
+    throw new UnsupportedBookError('MOBI files with HUFF/CDIC compression aren\'t supported');
+  }
+  if (compression !== COMPRESSION_NONE && compression !== COMPRESSION_PALMDOC) {
+    throw new UnsupportedBookError('Unknown MOBI compression');
+  }
+
+  const mobiLength = header.getUint32(20);
+  const encoding = header.getUint32(28) === ENCODING_UTF8 ? 'utf-8' : 'windows-1252';
+  const nameOffset = header.getUint32(84);
+  const nameLength = header.getUint32(88);
+  const hasExth = (header.getUint32(128) & 0x40) !== 0;
+
+  return {
+    records,
+    compression,
+    textLength: header.getUint32(4),
+    textRecordCount: header.getUint16(8),
+    encoding,
+    extraDataFlags: mobiLength >= 0xe4 ? header.getUint16(0xf2) : 0,
+    fdstIndex: mobiLength >= 0xe4 ? header.getUint32(0xc0) : NO_RECORD,
+    fullName: nameLength > 0
+      ? new TextDecoder(encoding).decode(record.subarray(nameOffset, nameOffset + nameLength))
+      : null,
+    exth: hasExth ? readExth(record, 16 + mobiLength) : new Map(),
+  };
+}
+
+// Size of a trailing entry, stored as a variable-width integer that ends the record
+function trailingEntrySize(record: Uint8Array): number {
+  let size = 0;
+  for (const byte of record.subarray(Math.max(0, record.length - 4))) {
+    if (byte & 0x80) size = 0;
+    size = (size << 7) | (byte & 0x7f);
+  }
+  return size;
+}
+
+// Text records can end with extra entries (indexing data, multibyte
+// overlap) that aren't part of the text
+function stripTrailingEntries(record: Uint8Array, flags: number): Uint8Array {
+  let end = record.length;
+  for (let bits = flags >> 1; bits; bits >>= 1) {
+    if (bits & 1) end -= trailingEntrySize(record.subarray(0, end));
+  }
+  if (flags & 1) end -= (record[end - 1] & 0x3) + 1;
+  return record.subarray(0, Math.max(0, end));
+}
+
+// PalmDOC's LZ77 variant
+function decompressPalmDoc(input: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const byte = input[i++];
+    if (byte >= 1 && byte <= 8) {
+      // Literal run
+      for (let n = 0; n < byte && i < input.length; n++) output.push(input[i++]);
+    } else if (byte < 0x80) {
+      output.push(byte);
+    } else if (byte >= 0xc0) {
+      // Space followed by a character
+      output.push(0x20, byte ^ 0x80);
+    } else {
+      // Back reference: 11-bit distance, 3-bit length
+      const pair = (byte << 8) | input[i++];
+      const distance = (pair >> 3) & 0x7ff;
+      const length = (pair & 7) + 3;
+      const start = output.length - distance;
+      if (start < 0) break;
+      for (let n = 0; n < length; n++) output.push(output[start + n]);
+    }
+  }
+  return Uint8Array.from(output);
+}
+
+function readText(header: MobiHeader): string {
+  const chunks: Uint8Array[] = [];
+  for (let i = 1; i <= header.textRecordCount && i < header.records.length; i++) {
+    const record = stripTrailingEntries(header.records[i], header.extraDataFlags);
+    chunks.push(header.compression === COMPRESSION_PALMDOC ? decompressPalmDoc(record) : record);
+  }
+
+  const text = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    text.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  // KF8 splits the text into flows (HTML, then CSS and SVG); only the first is HTML
+  let end = Math.min(header.textLength, text.length);
+  const fdst = header.fdstIndex !== NO_RECORD ? header.records[header.fdstIndex] : undefined;
+  if (fdst && readAscii(fdst, 0, 4) === 'FDST' && view(fdst).getUint32(8) > 1) {
+    end = Math.min(end, view(fdst).getUint32(view(fdst).getUint32(4) + 4));
+  }
+
+  return new TextDecoder(header.encoding).decode(text.subarray(0, end));
+}
+
+// Each KF8 skeleton is a complete file; keep only what's inside the bodies
+function stripDocumentTags(html: string): string {
+  return html
+    .replace(/<\?xml[^>]*>|<!DOCTYPE[^>]*>/gi, '')
+    .replace(/<head[\s>][\s\S]*?<\/head>/gi, '')
+    .replace(/<\/?(?:html|body)(?:\s[^>]*)?>/gi, '')
+    .replace(/<mbp:pagebreak\s*\/?>/gi, '');
+}
+
+export function readMobiMetadata(data: Uint8Array): DocumentMetadata {
+  const header = readHeader(data);
+  const exthText = (type: number) => (header.exth.get(type) ?? [])
+    .map(value => new TextDecoder(header.encoding).decode(value).trim())
+    .filter(value => value.length > 0);
+
+  const authors = exthText(EXTH_AUTHOR);
+  return {
+    title: exthText(EXTH_UPDATED_TITLE)[0] ?? header.fullName,
+    author: authors.length > 0 ? authors.join(', ') : null,
+    language: exthText(EXTH_LANGUAGE)[0] ?? null,
+  };
+}
+
+export function mobiToHtml(data: Uint8Array): string {
+  return htmlDocument(stripDocumentTags(readText(readHeader(data))));
+}
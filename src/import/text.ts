@@ -0,0 +1,40 @@
+import { escapeHtml, htmlDocument } from './html';
+
+// Plain text: blank lines separate paragraphs, and short lines that look like
+// chapter headings ("CHAPTER IV.", "Part Two", "Epilogue") start chapters.
+
+const CHAPTER_HEADING = /^(?:(?:chapter|book|part|act|volume|section|letter)\s+[\w.-]+|prologue|epilogue|preface|introduction|afterword)\b[^\n]{0,60}$/i;
+const ROMAN_NUMERAL_HEADING = /^[IVXLC]+\.?$/;
+
+// Project Gutenberg licence boilerplate surrounds the actual book
+const GUTENBERG_START = /^\*{3}\s*START OF (?:THE|THIS) PROJECT GUTENBERG.*$/im;
+const GUTENBERG_END = /^\*{3}\s*END OF (?:THE|THIS) PROJECT GUTENBERG.*$/im;
+
+function stripGutenbergBoilerplate(text: string): string {
+  const start = text.match(GUTENBERG_START);
+  let body = start ? text.slice(start.index! + start[0].length) : text;
+  const end = body.match(GUTENBERG_END);
+  if (end) body = body.slice(0, end.index);
+  return body;
+}
+
+function isHeading(lines: string[]): boolean {
+  if (lines.length !== 1) return false;
+  const line = lines[0].trim();
+  return CHAPTER_HEADING.test(line) || ROMAN_NUMERAL_HEADING.test(line);
+}
+
+export function textToHtml(text: string): string {
+  const paragraphs = stripGutenbergBoilerplate(text)
+    .replace(/\r\n?/g, '\n')
+    .split(/\n[ \t]*\n/)
+    .map(paragraph => paragraph.split('\n').filter(line => line.trim()))
+    .filter(lines => lines.length > 0);
+
+  const body = paragraphs.map(lines => {
+    const html = escapeHtml(lines.map(line => line.trim()).join(' '));
+    return isHeading(lines) ? `<h2>${html}</h2>` : `<p>${html}</p>`;
+  });
+
+  return htmlDocument(body.join('\n'));
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { anchorMatches, clampPosition, createAnchor, findAnchor, resolvePosition } from './anchor';
+import { makeBook } from '../test/helpers';
+import type { PositionAnchor, ReadingPosition } from '../types';
+
+// A paragraph of distinct words, e.g. "a0 a1 a2"
+function words(prefix: string, count: number): string {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+}
+
+function at(chapterIndex: number, paragraphIndex: number, wordIndex: number): ReadingPosition {
+  return { chapterIndex, paragraphIndex, wordIndex };
+}
+
+describe('createAnchor', () => {
+  it('keeps the words around the position, lowercased and without punctuation', () => {
+    const book = makeBook([['Intro text.', 'One, two; three four "Five" six seven eight nine ten eleven twelve thirteen.']]);
+    expect(createAnchor(book, at(0, 1, 7))).toEqual({
+      chapterTitle: 'Chapter 1',
+      words: ['two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve', 'thirteen'],
+      offset: 6,
+    });
+  });
+
+  it('runs across paragraphs but not across chapters', () => {
+    const book = makeBook([[words('a', 3)], [words('b', 3), words('c', 3)]]);
+    expect(createAnchor(book, at(1, 1, 0))).toEqual({
+      chapterTitle: 'Chapter 2',
+      words: ['b0', 'b1', 'b2', 'c0', 'c1', 'c2'],
+      offset: 3,
+    });
+  });
+
+  it('is null for positions the book does not have', () => {
+    const book = makeBook([[words('a', 3)]]);
+    expect(createAnchor(book, at(1, 0, 0))).toBeNull();
+    expect(createAnchor(book, at(0, 0, 3))).toBeNull();
+  });
+});
+
+describe('anchorMatches', () => {
+  it('holds while the indices still point at the anchored text', () => {
+    const book = makeBook([[words('a', 20), words('b', 20)]]);
+    const anchor = createAnchor(book, at(0, 1, 10))!;
+    expect(anchorMatches(book, at(0, 1, 10), anchor)).toBe(true);
+    expect(anchorMatches(book, at(0, 1, 11), anchor)).toBe(false);
+    expect(anchorMatches(book, at(0, 0, 10), anchor)).toBe(false);
+    expect(anchorMatches(book, at(1, 1, 10), anchor)).toBe(false);
+  });
+
+  it('ignores case and punctuation changes from re-extraction', () => {
+    const before = makeBook([['It was a dark and stormy night; the rain fell in torrents.']]);
+    const after = makeBook([['It was a Dark and Stormy night, the rain fell in torrents!']]);
+    const anchor = createAnchor(before, at(0, 0, 5))!;
+    expect(anchorMatches(after, at(0, 0, 5), anchor)).toBe(true);
+  });
+});
+
+describe('findAnchor', () => {
+  it('follows the text when paragraphs shift', () => {
+    const before = makeBook([[words('a', 10), words('b', 10)], [words('c', 10)]]);
+    const after = makeBook([['A new epigraph.', words('a', 10), words('b', 10)], [words('c', 10)]]);
+    const saved = at(0, 1, 4);
+    const anchor = createAnchor(before, saved)!;
+
+    expect(anchorMatches(after, saved, anchor)).toBe(false);
+    expect(findAnchor(after, anchor, saved)).toEqual(at(0, 2, 4));
+  });
+
+  it('follows the text into another chapter', () => {
+    const before = makeBook([[words('a', 10)], [words('b', 10)]]);
+    const after = makeBook([['Preface.'], [words('a', 10)], [words('b', 10)]]);
+    const saved = at(1, 0, 5);
+    expect(findAnchor(after, createAnchor(before, saved)!, saved)).toEqual(at(2, 0, 5));
+  });
+
+  it('prefers a chapter with the anchor title over a closer one', () => {
+    const text = words('x', 20);
+    const book = makeBook([[text], ['Between.'], [text]]);
+    const anchor = createAnchor(book, at(2, 0, 8))!;
+    expect(anchor.chapterTitle).toBe('Chapter 3');
+
+    // Saved indices nearer the first copy; the title still decides
+    expect(findAnchor(book, anchor, at(0, 0, 8))).toEqual(at(2, 0, 8));
+    // Without a chapter of that title, the copy nearest the indices wins
+    const retitled: PositionAnchor = { ...anchor, chapterTitle: 'Elsewhere' };
+    expect(findAnchor(book, retitled, at(0, 0, 8))).toEqual(at(0, 0, 8));
+    expect(findAnchor(book, retitled, at(2, 0, 0))).toEqual(at(2, 0, 8));
+  });
+
+  it('prefers the closest paragraph among equal matches in a chapter', () => {
+    const text = words('x', 20);
+    const book = makeBook([[text, 'Between.', text]]);
+    const anchor = createAnchor(book, at(0, 0, 8))!;
+    expect(findAnchor(book, anchor, at(0, 3, 0))).toEqual(at(0, 2, 8));
+    expect(findAnchor(book, anchor, at(0, 0, 0))).toEqual(at(0, 0, 8));
+  });
+
+  it('needs three quarters of the anchor words to line up', () => {
+    const before = makeBook([[words('a', 20)]]);
+    const saved = at(0, 0, 10);
+    const anchor = createAnchor(before, saved)!;
+    expect(anchor.words).toHaveLength(12);
+
+    // Edit some of the words around the anchored one, then move the text
+    const edited = (count: number) => {
+      const text = words('a', 20).split(' ').map((word, i) => (i >= 4 && i < 4 + count ? `changed${i}` : word));
+      return makeBook([['Inserted.', text.join(' ')]]);
+    };
+    // 9 of 12 still match
+    expect(findAnchor(edited(3), anchor, saved)).toEqual(at(0, 1, 10));
+    // 8 of 12 don't
+    expect(findAnchor(edited(4), anchor, saved)).toBeNull();
+  });
+
+  it('requires the anchored word itself to match', () => {
+    const before = makeBook([[words('a', 20)]]);
+    const anchor = createAnchor(before, at(0, 0, 10))!;
+    const after = makeBook([['Inserted.', words('a', 20).replace('a10', 'other')]]);
+    expect(findAnchor(after, anchor, at(0, 0, 10))).toBeNull();
+  });
+
+  it('relocates the short anchors at a chapter start', () => {
+    const before = makeBook([[words('a', 10)], [words('b', 10)]]);
+    const saved = at(1, 0, 0);
+    const anchor = createAnchor(before, saved)!;
+    expect(anchor).toEqual({ chapterTitle: 'Chapter 2', words: words('b', 6).split(' '), offset: 0 });
+
+    const after = makeBook([[words('a', 10)], ['Epigraph.', words('b', 10)]]);
+    expect(findAnchor(after, anchor, saved)).toEqual(at(1, 1, 0));
+
+    // Five of its six words must still line up
+    const tooChanged = makeBook([[words('a', 10)], ['Epigraph.', 'b0 b1 b2 b3 x4 x5 b6']]);
+    expect(findAnchor(tooChanged, anchor, saved)).toBeNull();
+  });
+});
+
+describe('resolvePosition', () => {
+  const before = makeBook([[words('a', 10), words('b', 10)], [words('c', 10)]]);
+
+  it('keeps saved positions whose anchor still matches', () => {
+    const saved = at(0, 1, 3);
+    expect(resolvePosition(before, saved, createAnchor(before, saved))).toEqual({ position: saved, relocated: false });
+  });
+
+  it('relocates saved positions by their anchor', () => {
+    const saved = at(0, 1, 3);
+    const after = makeBook([['Foreword.'], [words('a', 10), words('b', 10)], [words('c', 10)]]);
+    expect(resolvePosition(after, saved, createAnchor(before, saved))).toEqual({ position: at(1, 1, 3), relocated: true });
+  });
+
+  it('clamps to the book when the anchored text is gone', () => {
+    const saved = at(1, 0, 8);
+    const anchor = createAnchor(before, saved);
+    const after = makeBook([[words('a', 10), words('b', 10)], [words('d', 5)]]);
+    expect(resolvePosition(after, saved, anchor)).toEqual({ position: at(1, 0, 4), relocated: false });
+
+    const shorter = makeBook([[words('a', 10)]]);
+    expect(resolvePosition(shorter, saved, anchor)).toEqual({ position: at(0, 0, 8), relocated: false });
+  });
+
+  it('clamps positions saved without an anchor', () => {
+    expect(resolvePosition(before, at(5, 9, 99), null)).toEqual({ position: at(1, 0, 9), relocated: false });
+  });
+});
+
+describe('clampPosition', () => {
+  it('steps back over chapters without paragraphs', () => {
+    const book = makeBook([[words('a', 3)], []]);
+    expect(clampPosition(book, at(1, 2, 2))).toEqual(at(0, 0, 2));
+    expect(clampPosition(book, at(-1, -1, -1))).toEqual(at(0, 0, 0));
+  });
+});
@@ -0,0 +1,154 @@
+import type { Chapter, PositionAnchor, ProcessedBook, ReadingPosition } from '../types';
+
+// Saved positions carry the words around them, so that when a book is
+// re-extracted (or re-uploaded) and its indices shift, the reader can be
+// put back on the same text instead of an arbitrary clamped index.
+
+const WORDS_BEFORE = 6;
+const WORDS_AFTER = 6;
+
+// Tie-breaks weigh a chapter of distance above any paragraph distance
+const PARAGRAPH_DISTANCE_SCALE = 1e6;
+
+// Share of the anchor's words that must line up for a match
+const MIN_MATCH = 0.75;
+
+interface Token {
+  paragraphIndex: number;
+  wordIndex: number;
+  key: string;
+}
+
+// Case and punctuation don't survive extraction changes reliably, so words
+// are compared by their letters and digits (punctuation-only words as-is)
+function normalizeWord(text: string): string {
+  const key = text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  return key || text;
+}
+
+function chapterTokens(chapter: Chapter): Token[] {
+  const tokens: Token[] = [];
+  chapter.paragraphs.forEach((paragraph, paragraphIndex) => {
+    paragraph.words.forEach((word, wordIndex) => {
+      tokens.push({ paragraphIndex, wordIndex, key: normalizeWord(word.text) });
+    });
+  });
+  return tokens;
+}
+
+function findToken(tokens: Token[], position: ReadingPosition): number {
+  return tokens.findIndex(t => t.paragraphIndex === position.paragraphIndex && t.wordIndex === position.wordIndex);
+}
+
+// Count of anchor words matching the tokens around `index`, or -1 if the
+// word at `index` itself doesn't match
+function scoreAt(tokens: Token[], index: number, anchor: PositionAnchor): number {
+  if (tokens[index]?.key !== anchor.words[anchor.offset]) return -1;
+  let score = 0;
+  anchor.words.forEach((key, i) => {
+    if (tokens[index - anchor.offset + i]?.key === key) score++;
+  });
+  return score;
+}
+
+function isMatch(score: number, anchor: PositionAnchor): boolean {
+  return score >= Math.ceil(anchor.words.length * MIN_MATCH);
+}
+
+export function createAnchor(book: ProcessedBook, position: ReadingPosition): PositionAnchor | null {
+  const chapter = book.chapters[position.chapterIndex];
+  if (!chapter) return null;
+
+  const tokens = chapterTokens(chapter);
+  const index = findToken(tokens, position);
+  if (index < 0) return null;
+
+  const start = Math.max(0, index - WORDS_BEFORE);
+  return {
+    chapterTitle: chapter.title,
+    words: tokens.slice(start, index + WORDS_AFTER).map(t => t.key),
+    offset: index - start,
+  };
+}
+
+// Whether the saved indices still point at the anchored text
+export function anchorMatches(book: ProcessedBook, position: ReadingPosition, anchor: PositionAnchor): boolean {
+  const chapter = book.chapters[position.chapterIndex];
+  if (!chapter) return false;
+
+  const tokens = chapterTokens(chapter);
+  return isMatch(scoreAt(tokens, findToken(tokens, position), anchor), anchor);
+}
+
+// The best match for the anchor anywhere in the book. Ties go to chapters
+// with the anchor's title, then to the match closest to the saved indices.
+export function findAnchor(book: ProcessedBook, anchor: PositionAnchor, near: ReadingPosition): ReadingPosition | null {
+  let best: { position: ReadingPosition; score: number; distance: number } | null = null;
+
+  for (let chapterIndex = 0; chapterIndex < book.chapters.length; chapterIndex++) {
+    const chapter = book.chapters[chapterIndex];
+    const tokens = chapterTokens(chapter);
+    const titlePenalty = chapter.title === anchor.chapterTitle ? 0 : book.chapters.length;
+    const chapterDistance = titlePenalty + Math.abs(chapterIndex - near.chapterIndex);
+
+    for (let index = 0; index < tokens.length; index++) {
+      const score = scoreAt(tokens, index, anchor);
+      if (!isMatch(score, anchor)) continue;
+
+      const { paragraphIndex, wordIndex } = tokens[index];
+      const distance = chapterDistance * PARAGRAPH_DISTANCE_SCALE + Math.abs(paragraphIndex - near.paragraphIndex);
+      if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+        best = { position: { chapterIndex, paragraphIndex, wordIndex }, score, distance };
+      }
+    }
+  }
+
+  return best?.position ?? null;
+}
+
+// The nearest position inside the book's bounds, skipping back past
+// chapters without paragraphs
+export function clampPosition(book: ProcessedBook, pos: ReadingPosition): ReadingPosition {
+  // Clamp chapter
+  let chapterIndex = Math.max(0, Math.min(pos.chapterIndex, book.chapters.length - 1));
+  let chapter = book.chapters[chapterIndex];
+
+  // If chapter has no paragraphs, find one that does
+  while (chapter.paragraphs.length === 0 && chapterIndex > 0) {
+    chapterIndex--;
+    chapter = book.chapters[chapterIndex];
+  }
+
+  // Clamp paragraph
+  const paragraphIndex = Math.max(0, Math.min(pos.paragraphIndex, Math.max(0, chapter.paragraphs.length - 1)));
+  const paragraph = chapter.paragraphs[paragraphIndex];
+
+  // Clamp word (handle empty paragraph edge case)
+  const wordIndex = paragraph
+    ? Math.max(0, Math.min(pos.wordIndex, Math.max(0, paragraph.words.length - 1)))
+    : 0;
+
+  return { chapterIndex, paragraphIndex, wordIndex };
+}
+
+// Where to resume a saved position: the anchored text if the indices no
+// longer point at it (e.g. after re-extraction), otherwise the saved indices
+// clamped to the book's bounds
+export function resolvePosition(
+  book: ProcessedBook,
+  saved: ReadingPosition,
+  anchor: PositionAnchor | null | undefined
+): { position: ReadingPosition; relocated: boolean } {
+  const anchoredPos = anchor && !anchorMatches(book, saved, anchor) ? findAnchor(book, anchor, saved) : null;
+  if (anchoredPos) return { position: anchoredPos, relocated: true };
+  return { position: clampPosition(book, saved), relocated: false };
+}
+
+// Anchors come back from the server as stored JSON
+export function isPositionAnchor(value: unknown): value is PositionAnchor {
+  const anchor = value as PositionAnchor;
+  return typeof anchor === 'object' && anchor !== null &&
+    typeof anchor.chapterTitle === 'string' &&
+    Array.isArray(anchor.words) && anchor.words.every(word => typeof word === 'string') &&
+    Number.isInteger(anchor.offset) && anchor.offset >= 0 && anchor.offset < anchor.words.length;
+}
@@ -0,0 +1,23 @@
+export type TimerHandle = ReturnType<typeof setTimeout>;
+
+// Time source and timer API used by the engine's scheduler. Injecting a fake
+// implementation lets the engine run headless (e.g. under Node) with full
+// control over time.
+export interface Clock {
+  // Time in milliseconds (monotonic for the system clock)
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => performance.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle),
+};
+
+// Wall-clock time, for timestamps that are stored, like reading sessions
+export const wallClock: Clock = {
+  ...systemClock,
+  now: () => Date.now(),
+};
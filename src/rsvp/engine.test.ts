@@ -0,0 +1,380 @@
+import { describe, expect, it } from 'vitest';
+import { RSVPEngine } from './engine';
+import { DEFAULT_TIMING_SETTINGS } from './timing';
+import { DEFAULT_RESUME_SETTINGS } from './resume';
+import type { ResumeSettings } from './resume';
+import { FakeClock, makeBook } from '../test/helpers';
+
+// At 300 WPM every word gets a 200ms base interval
+const BASE = 200;
+
+function setup(chapters: string[][]) {
+  const clock = new FakeClock();
+  const engine = new RSVPEngine(clock);
+  engine.setWPM(300);
+  engine.loadBook(makeBook(chapters));
+
+  // Each word shown during playback, with the time it appeared
+  const shown: [string, number][] = [];
+  engine.onWordChange(info => {
+    if (info && engine.getStatus() === 'playing') shown.push([info.displayWord.text, clock.now()]);
+  });
+  return { clock, engine, shown };
+}
+
+describe('RSVPEngine scheduling', () => {
+  it('shows each word at its computed time', () => {
+    const { clock, engine, shown } = setup([['one two, three. four']]);
+    engine.play();
+    clock.advance(10_000);
+
+    // "two," adds a clause pause (0.75) and "three." a sentence pause (1.5)
+    expect(shown).toEqual([
+      ['two,', BASE],
+      ['three.', BASE + BASE * 1.75],
+      ['four', BASE + BASE * 1.75 + BASE * 2.5],
+    ]);
+  });
+
+  it('measures each delay from the previous deadline, not from when the timer fired', () => {
+    const clock = new FakeClock();
+    const engine = new RSVPEngine(clock);
+    engine.setWPM(300);
+    engine.loadBook(makeBook([['a b c d e']]));
+
+    const times: number[] = [];
+    engine.onWordChange(() => times.push(clock.now()));
+    engine.play();
+
+    // Fire each timer 50ms late; the next one is shortened to catch up
+    const setTimeout = clock.setTimeout.bind(clock);
+    clock.setTimeout = (callback, ms) => setTimeout(callback, ms + 50);
+    clock.advance(10_000);
+
+    // The first timer was scheduled on time; after that each fires 50ms late
+    // but words stay on the 200ms grid instead of drifting 50ms per word.
+    // The last change is reaching the end of the book.
+    expect(times).toEqual([BASE, BASE * 2 + 50, BASE * 3 + 50, BASE * 4 + 50, BASE * 5 + 50]);
+  });
+
+  it('pauses on the last word and resumes where it stopped', () => {
+    const { clock, engine, shown } = setup([['one two three four']]);
+    engine.play();
+    clock.advance(BASE + 10);
+    engine.pause();
+    clock.advance(10_000);
+    expect(shown.map(([word]) => word)).toEqual(['two']);
+
+    engine.play();
+    clock.advance(10_000);
+    expect(shown.map(([word]) => word)).toEqual(['two', 'three', 'four']);
+    expect(engine.getStatus()).toBe('paused');
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('flashes chunks for their combined time', () => {
+    const { clock, engine, shown } = setup([['one two three four']]);
+    engine.setChunkSize(2);
+    engine.play();
+    clock.advance(10_000);
+    expect(shown).toEqual([['three four', BASE * 2]]);
+  });
+});
+
+describe('RSVPEngine navigation during playback', () => {
+  it('times the next word from a seek, not from before it', () => {
+    const { clock, engine, shown } = setup([['one two three four five']]);
+    engine.play();
+    clock.advance(BASE / 2);
+    engine.setPosition({ chapterIndex: 0, paragraphIndex: 0, wordIndex: 3 });
+    clock.advance(10_000);
+    expect(shown).toEqual([['four', BASE / 2], ['five', BASE / 2 + BASE]]);
+  });
+
+  it('advances from the new position after skipping a word', () => {
+    const { clock, engine, shown } = setup([['one two three four five']]);
+    engine.setChunkSize(2);
+    engine.play();
+    clock.advance(BASE);
+    engine.nextWord();
+    clock.advance(10_000);
+    // The pending timer for "one two" would have jumped two words past "two three"
+    expect(shown).toEqual([['two three', BASE], ['four five', BASE * 3]]);
+  });
+});
+
+// An image paragraph between the first and second paragraphs of chapter 1
+function addImage(engine: RSVPEngine): void {
+  engine.getBook()!.chapters[0].paragraphs.splice(1, 0, {
+    words: [{ text: '[image]', orpIndex: 0, delay: 0 }],
+    sourceElement: 'img',
+    image: { src: 'figure.png', alt: '', caption: '' },
+  });
+}
+
+describe('RSVPEngine images', () => {
+  it('pauses on an image in show mode and carries on past it', () => {
+    const { clock, engine, shown } = setup([['One two.', 'Three four.']]);
+    addImage(engine);
+    engine.setImageMode('show');
+
+    engine.play();
+    clock.advance(10_000);
+    expect(shown).toEqual([['two.', BASE], ['[image]', BASE * 3.5]]);
+    expect(engine.getStatus()).toBe('paused');
+    expect(engine.getCurrentWordInfo()!.image).toEqual({ src: 'figure.png', alt: '', caption: '' });
+
+    engine.play();
+    expect(engine.getCurrentWordInfo()!.displayWord.text).toBe('Three');
+    clock.advance(10_000);
+    expect(shown.slice(2).map(([word]) => word)).toEqual(['four.']);
+  });
+
+  it('flashes the image placeholder like a word in list mode', () => {
+    const { clock, engine, shown } = setup([['One two.', 'Three four.']]);
+    addImage(engine);
+    engine.setImageMode('list');
+
+    engine.play();
+    clock.advance(10_000);
+    expect(shown).toEqual([['two.', BASE], ['[image]', BASE * 3.5], ['Three', BASE * 4.5], ['four.', BASE * 5.5]]);
+  });
+
+  it('passes over images without spending time on them in skip mode', () => {
+    const { clock, engine, shown } = setup([['One two.', 'Three four.']]);
+    addImage(engine);
+    engine.setImageMode('skip');
+
+    engine.play();
+    clock.advance(10_000);
+    // The image position is only passed through on the way to the next word
+    expect(shown.filter(([word]) => word !== '[image]')).toEqual([['two.', BASE], ['Three', BASE * 3.5], ['four.', BASE * 4.5]]);
+    expect(engine.getPosition().paragraphIndex).toBe(2);
+  });
+
+  it.each(['words', 'sentence'] as const)('resumes past an image after a long pause with %s rewind', rewindMode => {
+    const { clock, engine, shown } = setup([['One two.', 'Three four.']]);
+    addImage(engine);
+    engine.setImageMode('show');
+    engine.setResumeSettingsGetter(() => ({ rewindMode, rewindWords: 5, rewindThresholdSeconds: 10 }));
+
+    engine.play();
+    clock.advance(10_000);
+    expect(engine.getStatus()).toBe('paused');
+    expect(engine.getPosition().paragraphIndex).toBe(1);
+
+    clock.advance(60_000);
+    shown.length = 0;
+    engine.play();
+    clock.advance(10_000);
+    expect(shown.map(([word]) => word)).toEqual(['four.']);
+    expect(engine.getPosition().paragraphIndex).toBe(2);
+  });
+});
+
+describe('RSVPEngine front and back matter', () => {
+  // Front matter, two chapters of text, then back matter
+  function setupMatter(skipMatter: boolean) {
+    const harness = setup([['Copyright page.'], ['One two.'], ['Three four.'], ['About the author.']]);
+    const chapters = harness.engine.getBook()!.chapters;
+    chapters[0].matter = 'front';
+    chapters[3].matter = 'back';
+    harness.engine.setSkipMatter(skipMatter);
+    harness.engine.setPosition({ chapterIndex: 1, paragraphIndex: 0, wordIndex: 0 });
+    return harness;
+  }
+
+  it('stops at the end of the text when skipping matter', () => {
+    const { clock, engine, shown } = setupMatter(true);
+    engine.play();
+    clock.advance(10_000);
+
+    expect(shown.map(([word]) => word)).toEqual(['two.', 'Three', 'four.']);
+    expect(engine.getStatus()).toBe('paused');
+    expect(engine.getPosition()).toEqual({ chapterIndex: 2, paragraphIndex: 0, wordIndex: 1 });
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it('reads on into back matter when not skipping it', () => {
+    const { clock, engine, shown } = setupMatter(false);
+    engine.play();
+    clock.advance(10_000);
+
+    expect(shown.map(([word]) => word)).toEqual(['two.', 'Three', 'four.', 'About', 'the', 'author.']);
+    expect(engine.getPosition().chapterIndex).toBe(3);
+  });
+
+  it('passes over matter between chapters of text', () => {
+    const { clock, engine, shown } = setup([['One two.'], ['Map of the world.'], ['Three four.']]);
+    engine.getBook()!.chapters[1].matter = 'front';
+    engine.setSkipMatter(true);
+
+    engine.play();
+    clock.advance(10_000);
+    // The chapter change times like any sentence end
+    expect(shown).toEqual([['two.', BASE], ['Three', BASE * 3.5], ['four.', BASE * 4.5]]);
+  });
+});
+
+describe('RSVPEngine ramp-up', () => {
+  // Half speed at first, full speed from the fourth word shown
+  function setupRamp(chapters: string[][], rampUpEnabled = true) {
+    const harness = setup(chapters);
+    harness.engine.setTimingSettingsGetter(() => ({
+      ...DEFAULT_TIMING_SETTINGS,
+      rampUpEnabled,
+      rampUpStartFactor: 0.5,
+      rampUpWords: 4,
+    }));
+    return harness;
+  }
+
+  // Time each word was on screen, from the shown times
+  function durations(shown: [string, number][], from = 0): number[] {
+    return shown.map(([, time], i) => time - (i === 0 ? from : shown[i - 1][1]));
+  }
+
+  const RAMP = [BASE / 0.5, BASE / 0.625, BASE / 0.75, BASE / 0.875, BASE, BASE];
+
+  it('starts slow and reaches full speed after the ramp-up words', () => {
+    const { clock, engine, shown } = setupRamp([['a b c d e f g']]);
+    engine.play();
+    clock.advance(10_000);
+    durations(shown).forEach((ms, i) => expect(ms).toBeCloseTo(RAMP[i]));
+  });
+
+  it('ramps up again on resuming', () => {
+    const { clock, engine, shown } = setupRamp([['a b c d e f g h i j k l']]);
+    engine.play();
+    clock.advance(RAMP.reduce((sum, ms) => sum + ms));
+    engine.pause();
+    expect(shown).toHaveLength(6);
+
+    shown.length = 0;
+    const resumedAt = clock.now();
+    engine.play();
+    clock.advance(10_000);
+    expect(shown).toHaveLength(5);
+    durations(shown, resumedAt).forEach((ms, i) => expect(ms).toBeCloseTo(RAMP[i]));
+  });
+
+  it('ramps up again at the start of each chapter', () => {
+    const { clock, engine, shown } = setupRamp([['a b c d e f'], ['g h i j k l']]);
+    engine.play();
+    clock.advance(10_000);
+
+    // The last word of the first chapter is full speed; the first of the next is slow again
+    expect(shown[5]).toEqual(['g', shown[4][1] + BASE]);
+    durations(shown.slice(6), shown[5][1]).forEach((ms, i) => expect(ms).toBeCloseTo(RAMP[i]));
+  });
+
+  it('plays at full speed throughout when turned off', () => {
+    const { clock, engine, shown } = setupRamp([['a b c d e f g']], false);
+    engine.play();
+    clock.advance(10_000);
+    expect(durations(shown)).toEqual([BASE, BASE, BASE, BASE, BASE, BASE]);
+  });
+});
+
+describe('RSVPEngine rewind on resume', () => {
+  function setupRewind(chapters: string[][], settings: Partial<ResumeSettings>) {
+    const harness = setup(chapters);
+    harness.engine.setResumeSettingsGetter(() => ({ ...DEFAULT_RESUME_SETTINGS, rewindThresholdSeconds: 10, ...settings }));
+    return harness;
+  }
+
+  // Play until `word` is showing, pause, wait `pauseMs` and resume
+  function pauseAt(harness: ReturnType<typeof setup>, word: string, pauseMs: number): string {
+    const { clock, engine, shown } = harness;
+    engine.play();
+    for (let i = 0; i < 1000 && shown[shown.length - 1]?.[0] !== word; i++) clock.advance(BASE / 4);
+    engine.pause();
+    clock.advance(pauseMs);
+    engine.play();
+    return engine.getCurrentWordInfo()!.displayWord.text;
+  }
+
+  it('goes back to the start of the sentence after a long pause', () => {
+    const harness = setupRewind([['One two. Three four five six.']], { rewindMode: 'sentence' });
+    expect(pauseAt(harness, 'five', 10_000)).toBe('Three');
+    expect(harness.engine.getPosition().wordIndex).toBe(2);
+  });
+
+  it('goes no further back than the start of the paragraph', () => {
+    const harness = setupRewind([['First paragraph.', 'Second paragraph goes on']], { rewindMode: 'sentence' });
+    expect(pauseAt(harness, 'goes', 60_000)).toBe('Second');
+  });
+
+  it('stays put after a pause shorter than the threshold', () => {
+    const harness = setupRewind([['One two. Three four five six.']], { rewindMode: 'sentence' });
+    expect(pauseAt(harness, 'five', 9_999)).toBe('five');
+  });
+
+  it('goes back a number of words, across paragraphs', () => {
+    const harness = setupRewind([['One two three.', 'Four five six.']], { rewindMode: 'words', rewindWords: 3 });
+    expect(pauseAt(harness, 'five', 10_000)).toBe('two');
+    expect(harness.engine.getPosition()).toEqual({ chapterIndex: 0, paragraphIndex: 0, wordIndex: 1 });
+
+    // Playback carries on from there
+    harness.shown.length = 0;
+    harness.clock.advance(10_000);
+    expect(harness.shown.map(([word]) => word)).toEqual(['three.', 'Four', 'five', 'six.']);
+  });
+
+  it('never rewinds when turned off', () => {
+    const harness = setupRewind([['One two. Three four five six.']], { rewindMode: 'off' });
+    expect(pauseAt(harness, 'five', 60 * 60_000)).toBe('five');
+  });
+});
+
+describe('RSVPEngine long words', () => {
+  it('flashes the segments of a long word in turn, sharing its time', () => {
+    const { clock, engine, shown } = setup([['See nationalization now.']]);
+    engine.setMaxWordLength(10);
+    let advanced = 0;
+    engine.onAdvance(count => { advanced += count; });
+
+    engine.play();
+    clock.advance(10_000);
+    // Two base intervals for the two segments, split by their lengths (9 and 7)
+    expect(shown).toEqual([
+      ['national-', BASE],
+      ['ization', BASE + BASE * 2 * 9 / 16],
+      ['now.', BASE * 3],
+    ]);
+    // Read words count once each, however many segments they had
+    expect(advanced).toBe(3);
+  });
+
+  it('holds the position on the word while its segments show', () => {
+    const { clock, engine } = setup([['See nationalization now.']]);
+    engine.setMaxWordLength(10);
+    engine.play();
+    clock.advance(BASE + 1);
+    expect(engine.getCurrentWordInfo()!.displayWord.text).toBe('national-');
+    clock.advance(BASE * 2 * 9 / 16);
+    expect(engine.getCurrentWordInfo()!.displayWord.text).toBe('ization');
+    expect(engine.getPosition().wordIndex).toBe(1);
+  });
+
+  it('flashes long words on their own when chunking', () => {
+    const { clock, engine, shown } = setup([['See nationalization now here']]);
+    engine.setMaxWordLength(10);
+    engine.setChunkSize(2);
+    engine.play();
+    clock.advance(10_000);
+    expect(shown.map(([word]) => word)).toEqual(['national-', 'ization', 'now here']);
+  });
+
+  it('starts a word over from its first segment when stepping back to it', () => {
+    const { clock, engine } = setup([['See nationalization now.']]);
+    engine.setMaxWordLength(10);
+    engine.play();
+    clock.advance(BASE * 2 + BASE / 4);
+    expect(engine.getCurrentWordInfo()!.displayWord.text).toBe('ization');
+    engine.pause();
+    engine.nextWord();
+    engine.prevWord();
+    expect(engine.getCurrentWordInfo()!.displayWord.text).toBe('national-');
+  });
+});
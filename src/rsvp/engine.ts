@@ -6,47 +6,124 @@ import type {
   CurrentWordInfo,
   ProcessedWord,
   ViewMode,
+  NoteMode,
+  NoteRef,
+  ImageMode,
+  Paragraph,
 } from '../types';
-import { calculateTotalDelay, DEFAULT_WPM, DEFAULT_TIMING_SETTINGS } from './timing';
+import {
+  calculateTotalDelay,
+  calculateChunkDelay,
+  calculateSegmentDelays,
+  isEmphasized,
+  calculateRampWpm,
+  DEFAULT_WPM,
+  DEFAULT_TIMING_SETTINGS,
+  DEFAULT_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+} from './timing';
 import type { TimingSettings } from './timing';
+import { buildChunk, processChunk, segmentWord } from './word-processor';
+import { DEFAULT_RESUME_SETTINGS, findSentenceStart, isSentenceEnd } from './resume';
+import { DEFAULT_NOTE_MODE, buildNoteWords, getNoteRefsInRange } from './notes';
+import type { ResumeSettings } from './resume';
+import { systemClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
 
 type Listener<T> = (data: T) => void;
 
+// If playback falls further behind its timeline than this (e.g. a throttled
+// background tab), resync to now instead of bursting through missed words
+const MAX_SCHEDULER_LAG_MS = 1000;
+
+export const DEFAULT_IMAGE_MODE: ImageMode = 'show';
+
 export class RSVPEngine {
   private state: RSVPState = {
     status: 'idle',
     position: { chapterIndex: 0, paragraphIndex: 0, wordIndex: 0 },
     wpm: DEFAULT_WPM,
+    chunkSize: DEFAULT_CHUNK_SIZE,
+    maxWordLength: 0,
+    noteMode: DEFAULT_NOTE_MODE,
+    imageMode: DEFAULT_IMAGE_MODE,
+    skipMatter: false,
     book: null,
     viewMode: 'rsvp',
   };
 
-  private timerId: number | null = null;
+  private clock: Clock;
+  private timerId: TimerHandle | null = null;
+  // When the currently displayed word is due to be replaced. Each delay is
+  // measured from the previous deadline, not from when the timer fired, so
+  // timer jitter doesn't accumulate into a slower real WPM.
+  private nextDeadline: number | null = null;
+  // Which segment of a split long word is showing; any navigation resets it
+  private segmentIndex = 0;
+  // Inline mode: notes referenced in the current sentence, read once it ends
+  private pendingNotes: NoteRef[] = [];
+  // Inline note words being flashed before playback moves on
+  private noteWords: ProcessedWord[] | null = null;
+  private noteWordIndex = 0;
+  // Words shown since playback (re)started, used for the speed ramp-up
+  private rampWordsShown = 0;
+  // When playback was last paused, used to decide whether to rewind on resume
+  private pausedAt: number | null = null;
   private wordListeners = new Set<Listener<CurrentWordInfo | null>>();
   private statusListeners = new Set<Listener<RSVPStatus>>();
   private viewModeListeners = new Set<Listener<ViewMode>>();
+  private advanceListeners = new Set<Listener<number>>();
   private timingSettingsGetter: (() => TimingSettings) | null = null;
+  private resumeSettingsGetter: (() => ResumeSettings) | null = null;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
 
   loadBook(book: ProcessedBook): void {
     this.pause();
     this.state.book = book;
     this.state.position = { chapterIndex: 0, paragraphIndex: 0, wordIndex: 0 };
+    this.segmentIndex = 0;
+    this.pausedAt = null;
     this.setStatus('ready');
     this.notifyWordChange();
   }
 
+  // Swap in a fuller extraction of the loaded book, e.g. once background
+  // extraction finishes. Chapters are only added, so the position and
+  // playback carry on.
+  replaceBook(book: ProcessedBook): void {
+    this.state.book = book;
+  }
+
   play(): void {
     if (this.state.status !== 'ready' && this.state.status !== 'paused') return;
+    // A paused-on image has been seen; carry on after it. Rewinding instead
+    // would only lead back to the image and pause there again.
+    if (this.state.imageMode === 'show' && this.getCurrentParagraph()?.image) {
+      this.advance();
+      this.notifyWordChange();
+    } else if (this.state.status === 'paused') {
+      this.rewindForResume();
+    }
+    this.pausedAt = null;
+    this.rampWordsShown = 0;
+    this.nextDeadline = null;
     this.setStatus('playing');
     this.scheduleNext();
   }
 
   pause(): void {
     if (this.timerId !== null) {
-      clearTimeout(this.timerId);
+      this.clock.clearTimeout(this.timerId);
       this.timerId = null;
     }
+    this.nextDeadline = null;
+    this.clearNotes();
     if (this.state.status === 'playing') {
+      this.pausedAt = this.clock.now();
       this.setStatus('paused');
     }
   }
@@ -61,19 +138,26 @@ export class RSVPEngine {
 
   nextWord(): void {
     if (!this.state.book) return;
+    this.clearNotes();
     this.advance();
     this.notifyWordChange();
+    this.restartTimer();
   }
 
   prevWord(): void {
     if (!this.state.book) return;
+    this.clearNotes();
     this.retreat();
     this.notifyWordChange();
+    this.restartTimer();
   }
 
   restartParagraph(): void {
     this.state.position.wordIndex = 0;
+    this.segmentIndex = 0;
+    this.clearNotes();
     this.notifyWordChange();
+    this.restartTimer();
   }
 
   goToChapter(index: number): void {
@@ -85,7 +169,11 @@ export class RSVPEngine {
       paragraphIndex: 0,
       wordIndex: 0,
     };
+    this.segmentIndex = 0;
+    this.rampWordsShown = 0;
+    this.clearNotes();
     this.notifyWordChange();
+    this.restartTimer();
   }
 
   nextChapter(): void {
@@ -111,6 +199,55 @@ export class RSVPEngine {
     return this.state.wpm;
   }
 
+  setChunkSize(size: number): void {
+    this.state.chunkSize = Math.max(MIN_CHUNK_SIZE, Math.min(MAX_CHUNK_SIZE, Math.round(size)));
+    this.segmentIndex = 0;
+    this.notifyWordChange();
+    this.restartTimer();
+  }
+
+  getChunkSize(): number {
+    return this.state.chunkSize;
+  }
+
+  // Split words longer than `length` characters across flashes (0 = off)
+  setMaxWordLength(length: number): void {
+    this.state.maxWordLength = Math.max(0, Math.round(length));
+    this.segmentIndex = 0;
+    this.notifyWordChange();
+    this.restartTimer();
+  }
+
+  getMaxWordLength(): number {
+    return this.state.maxWordLength;
+  }
+
+  setNoteMode(mode: NoteMode): void {
+    this.state.noteMode = mode;
+    this.clearNotes();
+    this.notifyWordChange();
+  }
+
+  getNoteMode(): NoteMode {
+    return this.state.noteMode;
+  }
+
+  setImageMode(mode: ImageMode): void {
+    this.state.imageMode = mode;
+  }
+
+  getImageMode(): ImageMode {
+    return this.state.imageMode;
+  }
+
+  setSkipMatter(skip: boolean): void {
+    this.state.skipMatter = skip;
+  }
+
+  getSkipMatter(): boolean {
+    return this.state.skipMatter;
+  }
+
   setTimingSettingsGetter(getter: () => TimingSettings): void {
     this.timingSettingsGetter = getter;
   }
@@ -119,6 +256,14 @@ export class RSVPEngine {
     return this.timingSettingsGetter?.() ?? DEFAULT_TIMING_SETTINGS;
   }
 
+  setResumeSettingsGetter(getter: () => ResumeSettings): void {
+    this.resumeSettingsGetter = getter;
+  }
+
+  private getResumeSettings(): ResumeSettings {
+    return this.resumeSettingsGetter?.() ?? DEFAULT_RESUME_SETTINGS;
+  }
+
   getStatus(): RSVPStatus {
     return this.state.status;
   }
@@ -162,7 +307,10 @@ export class RSVPEngine {
     if (wordIndex < 0 || wordIndex >= paragraph.words.length) return;
 
     this.state.position = { chapterIndex, paragraphIndex, wordIndex };
+    this.segmentIndex = 0;
+    this.clearNotes();
     this.notifyWordChange();
+    this.restartTimer();
   }
 
   getCurrentWordInfo(): CurrentWordInfo | null {
@@ -178,8 +326,24 @@ export class RSVPEngine {
     const word = paragraph.words[wordIndex];
     if (!word) return null;
 
+    const chunk = buildChunk(
+      paragraph.words, wordIndex, this.state.chunkSize, this.state.maxWordLength, this.state.book.language
+    );
+    const segments = this.getSegments(chunk);
+    const segmentIndex = Math.min(this.segmentIndex, segments.length - 1);
+
+    const noteWord = this.noteWords?.[this.noteWordIndex];
+    let displayWord = segments.length > 1 ? segments[segmentIndex] : processChunk(chunk, this.state.book.language);
+    if (noteWord) displayWord = noteWord;
+
     return {
       word,
+      chunk,
+      displayWord,
+      segmentIndex,
+      segmentCount: segments.length,
+      isNote: noteWord !== undefined,
+      image: paragraph.image ?? null,
       position: { ...this.state.position },
       totalWordsInParagraph: paragraph.words.length,
       totalParagraphsInChapter: chapter.paragraphs.length,
@@ -202,6 +366,12 @@ export class RSVPEngine {
     return () => this.statusListeners.delete(callback);
   }
 
+  // Fires with the number of words advanced by playback (not manual navigation)
+  onAdvance(callback: Listener<number>): () => void {
+    this.advanceListeners.add(callback);
+    return () => this.advanceListeners.delete(callback);
+  }
+
   private setStatus(status: RSVPStatus): void {
     this.state.status = status;
     this.statusListeners.forEach(cb => cb(status));
@@ -212,35 +382,195 @@ export class RSVPEngine {
     this.wordListeners.forEach(cb => cb(info));
   }
 
-  private getCurrentWord(): ProcessedWord | null {
-    if (!this.state.book) return null;
-    const { chapterIndex, paragraphIndex, wordIndex } = this.state.position;
-    return this.state.book.chapters[chapterIndex]
-      ?.paragraphs[paragraphIndex]
-      ?.words[wordIndex] ?? null;
+  private getCurrentParagraph(): Paragraph | undefined {
+    const { chapterIndex, paragraphIndex } = this.state.position;
+    return this.state.book?.chapters[chapterIndex]?.paragraphs[paragraphIndex];
+  }
+
+  private getCurrentChunk(): ProcessedWord[] {
+    const paragraph = this.getCurrentParagraph();
+    if (!this.state.book || !paragraph) return [];
+    return buildChunk(
+      paragraph.words, this.state.position.wordIndex, this.state.chunkSize, this.state.maxWordLength,
+      this.state.book.language
+    );
+  }
+
+  // Display segments for a chunk; only a lone over-long word is ever split,
+  // a multi-word chunk is flashed whole
+  private getSegments(chunk: ProcessedWord[]): ProcessedWord[] {
+    const language = this.state.book?.language ?? '';
+    if (chunk.length !== 1) return [processChunk(chunk, language)];
+    return segmentWord(chunk[0], this.state.maxWordLength, language);
   }
 
   private scheduleNext(): void {
     if (this.state.status !== 'playing') return;
 
-    const word = this.getCurrentWord();
-    if (!word) {
+    if (this.noteWords) {
+      this.scheduleNoteWord(this.noteWords);
+      return;
+    }
+
+    // Images stop playback to be looked at, or are passed over; in list
+    // mode their placeholder flashes like any other word
+    if (this.getCurrentParagraph()?.image && this.state.imageMode !== 'list') {
+      if (this.state.imageMode === 'show') {
+        this.pause();
+      } else {
+        this.advance();
+        this.notifyWordChange();
+        this.scheduleNext();
+      }
+      return;
+    }
+
+    const chunk = this.getCurrentChunk();
+    if (chunk.length === 0) {
       this.pause();
       return;
     }
 
     const settings = this.getTimingSettings();
-    const totalDelay = calculateTotalDelay(word.text, this.state.wpm, settings);
+    const wpm = calculateRampWpm(this.state.wpm, this.rampWordsShown, settings);
+    const language = this.state.book?.language ?? '';
+    const segments = this.getSegments(chunk);
+    const { chapterIndex, paragraphIndex, wordIndex } = this.state.position;
+    // The word after the chunk tells "No. 5" from a sentence ending in "no."
+    const next = this.getCurrentParagraph()?.words[wordIndex + chunk.length]?.text ?? '';
+    let totalDelay: number;
+    if (segments.length > 1) {
+      const delays = calculateSegmentDelays(
+        chunk[0].text, segments.map(s => s.text), wpm, settings, language, isEmphasized(chunk[0].style), next
+      );
+      totalDelay = delays[Math.min(this.segmentIndex, delays.length - 1)];
+    } else if (chunk.length === 1) {
+      totalDelay = calculateTotalDelay(chunk[0].text, wpm, settings, language, isEmphasized(chunk[0].style), next);
+    } else {
+      totalDelay = calculateChunkDelay(chunk, wpm, settings, language, next);
+    }
 
-    this.timerId = window.setTimeout(() => {
-      this.advance();
+    this.scheduleAfter(totalDelay, () => {
+      // Step through a split word's segments before moving on
+      if (this.segmentIndex < segments.length - 1) {
+        this.segmentIndex++;
+        this.notifyWordChange();
+        this.scheduleNext();
+        return;
+      }
+      if (this.state.noteMode === 'inline') {
+        this.queueNotes(chapterIndex, paragraphIndex, wordIndex, chunk);
+      }
+      this.rampWordsShown += chunk.length;
+      // Chunks never span paragraphs, so stepping word by word is safe
+      for (let i = 0; i < chunk.length; i++) {
+        this.advance();
+      }
+      this.advanceListeners.forEach(cb => cb(chunk.length));
+      this.notifyWordChange();
+      this.scheduleNext();
+    });
+  }
+
+  // The pending flash was timed for the old position (and would advance by
+  // the old chunk), so a move during playback starts timing afresh
+  private restartTimer(): void {
+    if (this.timerId === null) return;
+    this.clock.clearTimeout(this.timerId);
+    this.timerId = null;
+    this.nextDeadline = null;
+    this.scheduleNext();
+  }
+
+  // Run `callback` once `delay` has elapsed on the playback timeline
+  private scheduleAfter(delay: number, callback: () => void): void {
+    const now = this.clock.now();
+    let start = this.nextDeadline ?? now;
+    if (now - start > MAX_SCHEDULER_LAG_MS) {
+      start = now;
+    }
+    this.nextDeadline = start + delay;
+
+    this.timerId = this.clock.setTimeout(() => {
+      this.timerId = null;
+      callback();
+    }, Math.max(0, this.nextDeadline - now));
+  }
+
+  private scheduleNoteWord(noteWords: ProcessedWord[]): void {
+    const word = noteWords[this.noteWordIndex];
+    const settings = this.getTimingSettings();
+    const wpm = calculateRampWpm(this.state.wpm, this.rampWordsShown, settings);
+    const delay = calculateTotalDelay(word.text, wpm, settings, this.state.book?.language ?? '');
+
+    this.scheduleAfter(delay, () => {
+      this.noteWordIndex++;
+      if (this.noteWordIndex >= noteWords.length) {
+        this.noteWords = null;
+        this.noteWordIndex = 0;
+      }
       this.notifyWordChange();
       this.scheduleNext();
-    }, totalDelay);
+    });
+  }
+
+  // Collect notes referenced by a just-shown chunk; once its sentence (or
+  // paragraph) ends, line their words up to be read next
+  private queueNotes(
+    chapterIndex: number,
+    paragraphIndex: number,
+    wordIndex: number,
+    chunk: ProcessedWord[]
+  ): void {
+    const book = this.state.book;
+    const paragraph = book?.chapters[chapterIndex]?.paragraphs[paragraphIndex];
+    if (!book || !paragraph) return;
+
+    const lastIndex = wordIndex + chunk.length - 1;
+    this.pendingNotes.push(...getNoteRefsInRange(paragraph, wordIndex, lastIndex));
+    if (this.pendingNotes.length === 0) return;
+
+    const next = paragraph.words[lastIndex + 1]?.text ?? '';
+    const sentenceEnded = isSentenceEnd(chunk[chunk.length - 1].text, book.language, next)
+      || lastIndex >= paragraph.words.length - 1;
+    if (sentenceEnded) {
+      this.noteWords = buildNoteWords(this.pendingNotes, book.notes, book.language);
+      this.noteWordIndex = 0;
+      this.pendingNotes = [];
+    }
+  }
+
+  private clearNotes(): void {
+    this.pendingNotes = [];
+    this.noteWords = null;
+    this.noteWordIndex = 0;
+  }
+
+  // Back up after a long pause so the reader regains the sentence's context
+  private rewindForResume(): void {
+    if (!this.state.book || this.pausedAt === null) return;
+
+    const settings = this.getResumeSettings();
+    if (settings.rewindMode === 'off') return;
+    if (this.clock.now() - this.pausedAt < settings.rewindThresholdSeconds * 1000) return;
+
+    if (settings.rewindMode === 'sentence') {
+      const { chapterIndex, paragraphIndex, wordIndex } = this.state.position;
+      const paragraph = this.state.book.chapters[chapterIndex]?.paragraphs[paragraphIndex];
+      if (!paragraph) return;
+      this.state.position.wordIndex = findSentenceStart(paragraph.words, wordIndex, this.state.book.language);
+      this.segmentIndex = 0;
+    } else {
+      for (let i = 0; i < settings.rewindWords; i++) {
+        this.retreat();
+      }
+    }
+    this.notifyWordChange();
   }
 
   private advance(): void {
     if (!this.state.book) return;
+    this.segmentIndex = 0;
 
     const { chapterIndex, paragraphIndex, wordIndex } = this.state.position;
     const chapter = this.state.book.chapters[chapterIndex];
@@ -262,11 +592,13 @@ export class RSVPEngine {
       return;
     }
 
-    // Try next chapter
-    if (chapterIndex + 1 < this.state.book.chapters.length) {
-      this.state.position.chapterIndex++;
+    // Try next chapter (ramp up again at the start of each chapter)
+    const nextChapter = this.findNextChapter(chapterIndex + 1);
+    if (nextChapter !== null) {
+      this.state.position.chapterIndex = nextChapter;
       this.state.position.paragraphIndex = 0;
       this.state.position.wordIndex = 0;
+      this.rampWordsShown = 0;
       return;
     }
 
@@ -274,8 +606,19 @@ export class RSVPEngine {
     this.pause();
   }
 
+  // First chapter from `start` that reading moves on to: any chapter, or
+  // only body chapters when skipping front and back matter
+  private findNextChapter(start: number): number | null {
+    const chapters = this.state.book?.chapters ?? [];
+    for (let i = start; i < chapters.length; i++) {
+      if (!this.state.skipMatter || chapters[i].matter === 'body') return i;
+    }
+    return null;
+  }
+
   private retreat(): void {
     if (!this.state.book) return;
+    this.segmentIndex = 0;
 
     const { chapterIndex, paragraphIndex, wordIndex } = this.state.position;
 
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ESTIMATE_OPTIONS, ReadingTimeIndex } from './estimate';
+import type { EstimateOptions } from './estimate';
+import { RSVPEngine } from './engine';
+import { calculateChunkDelay, DEFAULT_TIMING_SETTINGS } from './timing';
+import type { TimingSettings } from './timing';
+import { buildChunk, processWord, segmentWord } from './word-processor';
+import { FakeClock, makeBook } from '../test/helpers';
+import type { ProcessedBook, ProcessedWord, ReadingPosition } from '../types';
+
+// Time the engine takes to read a paragraph from `start`, chunk by chunk
+function readingTime(words: ProcessedWord[], start: number, chunkSize: number): number {
+  let total = 0;
+  for (let i = start; i < words.length;) {
+    const chunk = buildChunk(words, i, chunkSize, 0, 'en');
+    total += calculateChunkDelay(chunk, 300, DEFAULT_TIMING_SETTINGS, 'en', words[i + chunk.length]?.text);
+    i += chunk.length;
+  }
+  return total;
+}
+
+describe('ReadingTimeIndex', () => {
+  const book = makeBook([
+    ['a well- made plan, then some more words.', 'and a self- contained second paragraph'],
+    ['the last chapter'],
+  ]);
+  const [first, second] = book.chapters[0].paragraphs;
+
+  it.each([1, 2, 3])('matches the engine with chunks of %i', chunkSize => {
+    const index = new ReadingTimeIndex(book, chunkSize);
+    const chapterMs = readingTime(first.words, 0, chunkSize) + readingTime(second.words, 0, chunkSize);
+    const bookMs = chapterMs + readingTime(book.chapters[1].paragraphs[0].words, 0, chunkSize);
+
+    expect(index.getChapterMs(0, 300, DEFAULT_TIMING_SETTINGS)).toBeCloseTo(chapterMs);
+    const remaining = index.getRemaining({ chapterIndex: 0, paragraphIndex: 0, wordIndex: 0 }, 300, DEFAULT_TIMING_SETTINGS);
+    expect(remaining.chapterMs).toBeCloseTo(chapterMs);
+    expect(remaining.bookMs).toBeCloseTo(bookMs);
+  });
+
+  it('chunks the current paragraph from the current word', () => {
+    const index = new ReadingTimeIndex(book, 3);
+    const remaining = index.getRemaining({ chapterIndex: 0, paragraphIndex: 1, wordIndex: 2 }, 300, DEFAULT_TIMING_SETTINGS);
+    expect(remaining.chapterMs).toBeCloseTo(readingTime(second.words, 2, 3));
+  });
+});
+
+// How long the engine takes to play from `position` to the end of the book
+function playbackTime(
+  book: ProcessedBook,
+  position: ReadingPosition,
+  settings: TimingSettings,
+  options: EstimateOptions,
+  maxWordLength: number
+): number {
+  const clock = new FakeClock();
+  const engine = new RSVPEngine(clock);
+  engine.setWPM(300);
+  engine.setMaxWordLength(maxWordLength);
+  engine.setTimingSettingsGetter(() => settings);
+  engine.setImageMode(options.imageMode);
+  engine.setNoteMode(options.noteMode);
+  engine.setSkipMatter(options.skipMatter);
+  engine.loadBook(book);
+  engine.setPosition(position);
+
+  let stoppedAt: number | null = null;
+  engine.onStatusChange(status => {
+    if (status === 'paused') stoppedAt = clock.now();
+  });
+  engine.play();
+  clock.advance(600_000);
+  return stoppedAt!;
+}
+
+describe('ReadingTimeIndex against the engine', () => {
+  // A front matter page, two body chapters (the first with an image, a
+  // footnote and some words long enough to split) and back matter
+  function makeFullBook(): ProcessedBook {
+    const book = makeBook([
+      ['Copyright 2024 by nobody.'],
+      ['An incomprehensibility, surely.', 'Then the counterrevolutionaries arrived.'],
+      ['A short closing chapter.'],
+      ['Index of everything.'],
+    ]);
+    book.chapters[0].matter = 'front';
+    book.chapters[3].matter = 'back';
+    const body = book.chapters[1];
+    body.paragraphs.splice(1, 0, {
+      words: [processWord('[Image]', 'en')],
+      sourceElement: 'img',
+      image: { src: 'figure.png', alt: '', caption: '' },
+    });
+    body.paragraphs[0].notes = [{ wordIndex: 1, noteId: 'n1', label: '1' }];
+    book.notes = { n1: 'A note, read inline.' };
+    return book;
+  }
+
+  const LENGTH_DELAY: TimingSettings = { ...DEFAULT_TIMING_SETTINGS, lengthDelayEnabled: true, lengthDelayFactor: 0.5 };
+
+  it.each([
+    ['no splitting', DEFAULT_TIMING_SETTINGS, {}, 0],
+    ['split words without length delay', DEFAULT_TIMING_SETTINGS, {}, 8],
+    ['split words with length delay', LENGTH_DELAY, {}, 8],
+    ['images listed', DEFAULT_TIMING_SETTINGS, { imageMode: 'list' }, 8],
+    ['images skipped', DEFAULT_TIMING_SETTINGS, { imageMode: 'skip' }, 8],
+    ['inline notes', DEFAULT_TIMING_SETTINGS, { noteMode: 'inline' }, 8],
+    ['skipped matter', DEFAULT_TIMING_SETTINGS, { skipMatter: true }, 8],
+  ] as const)('matches playback time with %s', (_, settings, modes, maxWordLength) => {
+    const book = makeFullBook();
+    const options = { ...DEFAULT_ESTIMATE_OPTIONS, imageMode: 'skip' as const, ...modes };
+    const index = new ReadingTimeIndex(book, 1, maxWordLength);
+
+    for (const chapterIndex of [0, 1]) {
+      const position = { chapterIndex, paragraphIndex: 0, wordIndex: 0 };
+      const { bookMs } = index.getRemaining(position, 300, settings, options);
+      expect(bookMs).toBeCloseTo(playbackTime(book, position, settings, options, maxWordLength));
+    }
+  });
+
+  it('gives each segment of a split word at least one interval', () => {
+    const book = makeBook([['incomprehensibilities']]);
+    const position = { chapterIndex: 0, paragraphIndex: 0, wordIndex: 0 };
+    const segments = new ReadingTimeIndex(book, 1, 8).getRemaining(position, 300, DEFAULT_TIMING_SETTINGS);
+    const whole = new ReadingTimeIndex(book, 1, 0).getRemaining(position, 300, DEFAULT_TIMING_SETTINGS);
+    const count = segmentWord(book.chapters[0].paragraphs[0].words[0], 8).length;
+    expect(count).toBeGreaterThan(1);
+    expect(whole.bookMs).toBeCloseTo(200);
+    expect(segments.bookMs).toBeCloseTo(200 * count);
+  });
+});
@@ -0,0 +1,357 @@
+import type { ImageMode, NoteMode, Paragraph, ProcessedBook, ProcessedWord, ReadingPosition } from '../types';
+import { calculateBaseInterval, getExtraLength, getPunctuationClass, isEmphasized, PUNCTUATION_CLASSES } from './timing';
+import type { PunctuationClass, TimingSettings } from './timing';
+import { getWordBucketMultiplier } from '../wordlist';
+import { buildChunk, segmentWord } from './word-processor';
+import { buildNoteWords, DEFAULT_NOTE_MODE } from './notes';
+import { DEFAULT_IMAGE_MODE } from './engine';
+
+// Every component of calculateTotalDelay is a multiple of the base interval,
+// so a span of words can be summarised once and priced for any WPM/settings
+interface TimingUnits {
+  words: number;
+  // Count of words ending in each punctuation class
+  punctuation: Record<PunctuationClass, number>;
+  lengthExtra: number;
+  frequency: number;
+  emphasized: number;
+}
+
+// A span of the book, with image placeholders and inline note words kept
+// apart from the text since whether they're read depends on the modes
+interface SpanUnits {
+  text: TimingUnits;
+  images: TimingUnits;
+  notes: TimingUnits;
+}
+
+// A long word flashed in several segments. calculateSegmentDelays gives
+// each segment at least one base interval, which can't be summed ahead of
+// knowing the settings, so these are priced one by one.
+interface SplitWord {
+  paragraphIndex: number;
+  segments: number;
+  units: TimingUnits;
+}
+
+// Split-word intervals for some settings: per chapter, and for chapters
+// [c, end) and the body chapters among them
+interface SplitIntervals {
+  key: string;
+  chapters: number[];
+  suffixes: number[];
+  bodySuffixes: number[];
+}
+
+// The playback modes that change what's read, as set on the engine
+export interface EstimateOptions {
+  imageMode: ImageMode;
+  noteMode: NoteMode;
+  skipMatter: boolean;
+}
+
+export const DEFAULT_ESTIMATE_OPTIONS: EstimateOptions = {
+  imageMode: DEFAULT_IMAGE_MODE,
+  noteMode: DEFAULT_NOTE_MODE,
+  skipMatter: false,
+};
+
+function emptyUnits(): TimingUnits {
+  return {
+    words: 0,
+    punctuation: { sentence: 0, clause: 0, ellipsis: 0, dash: 0, hyphen: 0 },
+    lengthExtra: 0,
+    frequency: 0,
+    emphasized: 0,
+  };
+}
+
+function emptySpan(): SpanUnits {
+  return { text: emptyUnits(), images: emptyUnits(), notes: emptyUnits() };
+}
+
+function copySpan(span: SpanUnits): SpanUnits {
+  const copy = emptySpan();
+  addSpan(copy, span);
+  return copy;
+}
+
+function addUnits(target: TimingUnits, source: TimingUnits): void {
+  target.words += source.words;
+  for (const cls of PUNCTUATION_CLASSES) {
+    target.punctuation[cls] += source.punctuation[cls];
+  }
+  target.lengthExtra += source.lengthExtra;
+  target.frequency += source.frequency;
+  target.emphasized += source.emphasized;
+}
+
+function addSpan(target: SpanUnits, source: SpanUnits): void {
+  addUnits(target.text, source.text);
+  addUnits(target.images, source.images);
+  addUnits(target.notes, source.notes);
+}
+
+function wordUnits(word: ProcessedWord, language: string, next: string): TimingUnits {
+  const units = emptyUnits();
+  units.words = 1;
+  const punctuationClass = getPunctuationClass(word.text, language, next);
+  if (punctuationClass) units.punctuation[punctuationClass] = 1;
+  units.lengthExtra = getExtraLength(word.text);
+  units.frequency = getWordBucketMultiplier(word.text);
+  units.emphasized = isEmphasized(word.style) ? 1 : 0;
+  return units;
+}
+
+// Base intervals a word's reading time takes, without its punctuation pause
+function readingIntervals(units: TimingUnits, settings: TimingSettings): number {
+  let intervals = units.words;
+  if (settings.lengthDelayEnabled) {
+    intervals += units.lengthExtra * settings.lengthDelayFactor;
+  }
+  if (settings.frequencyDelayEnabled) {
+    intervals += units.frequency * settings.frequencyDelayFactor;
+  }
+  if (settings.emphasisDelayEnabled) {
+    intervals += units.emphasized * settings.emphasisDelayFactor;
+  }
+  return intervals;
+}
+
+function unitsToIntervals(units: TimingUnits, settings: TimingSettings): number {
+  let intervals = readingIntervals(units, settings);
+  for (const cls of PUNCTUATION_CLASSES) {
+    intervals += units.punctuation[cls] * settings.punctuationMultipliers[cls];
+  }
+  return intervals;
+}
+
+// Intervals split words take beyond their reading time, from the floor of
+// one interval per segment
+function splitIntervals(splits: SplitWord[], settings: TimingSettings): number {
+  return splits.reduce(
+    (sum, split) => sum + Math.max(0, split.segments - readingIntervals(split.units, settings)), 0
+  );
+}
+
+// Images only take time when their placeholder flashes in list mode; in
+// show mode playback waits on the reader instead, which can't be priced
+function spanToIntervals(span: SpanUnits, settings: TimingSettings, options: EstimateOptions): number {
+  let intervals = unitsToIntervals(span.text, settings);
+  if (options.imageMode === 'list') intervals += unitsToIntervals(span.images, settings);
+  if (options.noteMode === 'inline') intervals += unitsToIntervals(span.notes, settings);
+  return intervals;
+}
+
+export interface TimeRemaining {
+  chapterMs: number;
+  bookMs: number;
+}
+
+// Precomputed per-book timing summary for cheap time-remaining estimates.
+// Build once per book (after the wordlist has loaded) and for each chunking
+// setting, and reuse for every position, WPM, timing-settings and mode
+// change. Estimates match the engine's own timing except for time spent
+// paused: on images in show mode, at the ends of chapters and when the
+// reader stops.
+export class ReadingTimeIndex {
+  private book: ProcessedBook;
+  private chunkSize: number;
+  private maxWordLength: number;
+  // Per chapter: units for paragraphs [p, end) of that chapter
+  private paragraphSuffixes: SpanUnits[][] = [];
+  // Units for chapters [c, end) of the book, and for the body chapters
+  // among them, which are all that's read when skipping matter
+  private chapterSuffixes: SpanUnits[] = [];
+  private bodyChapterSuffixes: SpanUnits[] = [];
+  // Per chapter: its split words, in reading order
+  private splitWords: SplitWord[][] = [];
+  // Split-word intervals for the last settings priced
+  private splitCache: SplitIntervals | null = null;
+  // Words before the start of each chapter/paragraph, for progress
+  private chapterWordOffsets: number[] = [];
+  private paragraphWordOffsets: number[][] = [];
+  private totalWords = 0;
+
+  constructor(book: ProcessedBook, chunkSize = 1, maxWordLength = 0) {
+    this.book = book;
+    this.chunkSize = chunkSize;
+    this.maxWordLength = maxWordLength;
+    this.build();
+  }
+
+  // Add the units for words [start, end) of a paragraph, read in chunks the
+  // way the engine does: as in calculateChunkDelay, only a chunk's last word
+  // keeps its punctuation pause. Words split into segments are collected in
+  // `splits`, and note words for markers from `start` on go to the notes.
+  private addParagraphUnits(
+    target: SpanUnits,
+    splits: SplitWord[],
+    paragraph: Paragraph,
+    paragraphIndex: number,
+    start: number
+  ): void {
+    const { language, notes } = this.book;
+    const words = paragraph.words;
+    const units = paragraph.image ? target.images : target.text;
+
+    let i = start;
+    while (i < words.length) {
+      const chunk = buildChunk(words, i, this.chunkSize, this.maxWordLength, language);
+      chunk.forEach((word, j) => {
+        const wordTiming = wordUnits(word, language, words[i + j + 1]?.text ?? '');
+        if (j < chunk.length - 1) {
+          for (const cls of PUNCTUATION_CLASSES) wordTiming.punctuation[cls] = 0;
+        }
+        addUnits(units, wordTiming);
+      });
+
+      if (chunk.length === 1) {
+        const segments = segmentWord(chunk[0], this.maxWordLength, language).length;
+        if (segments > 1) {
+          splits.push({ paragraphIndex, segments, units: wordUnits(chunk[0], language, '') });
+        }
+      }
+      i += chunk.length;
+    }
+
+    // Note words are timed one by one, with no following word
+    const refs = (paragraph.notes ?? []).filter(ref => ref.wordIndex >= start);
+    for (const word of buildNoteWords(refs, notes, language)) {
+      const noteTiming = wordUnits(word, language, '');
+      noteTiming.emphasized = 0;
+      addUnits(target.notes, noteTiming);
+    }
+  }
+
+  private build(): void {
+    const chapters = this.book.chapters;
+
+    for (const chapter of chapters) {
+      this.chapterWordOffsets.push(this.totalWords);
+      const offsets: number[] = [];
+      for (const paragraph of chapter.paragraphs) {
+        offsets.push(this.totalWords - this.chapterWordOffsets[this.chapterWordOffsets.length - 1]);
+        this.totalWords += paragraph.words.length;
+      }
+      this.paragraphWordOffsets.push(offsets);
+    }
+
+    const bookTotal = emptySpan();
+    const bodyTotal = emptySpan();
+    this.chapterSuffixes = new Array(chapters.length + 1);
+    this.bodyChapterSuffixes = new Array(chapters.length + 1);
+    this.chapterSuffixes[chapters.length] = emptySpan();
+    this.bodyChapterSuffixes[chapters.length] = emptySpan();
+
+    for (let c = chapters.length - 1; c >= 0; c--) {
+      const paragraphs = chapters[c].paragraphs;
+      const suffixes: SpanUnits[] = new Array(paragraphs.length + 1);
+      const chapterTotal = emptySpan();
+      const splits: SplitWord[] = [];
+      suffixes[paragraphs.length] = emptySpan();
+
+      for (let p = paragraphs.length - 1; p >= 0; p--) {
+        this.addParagraphUnits(chapterTotal, splits, paragraphs[p], p, 0);
+        suffixes[p] = copySpan(chapterTotal);
+      }
+
+      this.paragraphSuffixes[c] = suffixes;
+      this.splitWords[c] = splits.reverse();
+      addSpan(bookTotal, chapterTotal);
+      if (chapters[c].matter === 'body') addSpan(bodyTotal, chapterTotal);
+      this.chapterSuffixes[c] = copySpan(bookTotal);
+      this.bodyChapterSuffixes[c] = copySpan(bodyTotal);
+    }
+  }
+
+  // Split-word intervals by chapter, for these settings
+  private getSplitIntervals(settings: TimingSettings): SplitIntervals {
+    const key = JSON.stringify([
+      settings.lengthDelayEnabled && settings.lengthDelayFactor,
+      settings.frequencyDelayEnabled && settings.frequencyDelayFactor,
+      settings.emphasisDelayEnabled && settings.emphasisDelayFactor,
+    ]);
+    if (this.splitCache?.key === key) return this.splitCache;
+
+    const chapters = this.splitWords.map(splits => splitIntervals(splits, settings));
+    const suffixes = new Array<number>(chapters.length + 1).fill(0);
+    const bodySuffixes = new Array<number>(chapters.length + 1).fill(0);
+    for (let c = chapters.length - 1; c >= 0; c--) {
+      suffixes[c] = suffixes[c + 1] + chapters[c];
+      bodySuffixes[c] = bodySuffixes[c + 1] + (this.book.chapters[c].matter === 'body' ? chapters[c] : 0);
+    }
+    this.splitCache = { key, chapters, suffixes, bodySuffixes };
+    return this.splitCache;
+  }
+
+  // Reading time for a whole chapter
+  getChapterMs(
+    chapterIndex: number,
+    wpm: number,
+    settings: TimingSettings,
+    options: EstimateOptions = DEFAULT_ESTIMATE_OPTIONS
+  ): number {
+    const suffixes = this.paragraphSuffixes[chapterIndex];
+    if (!suffixes) return 0;
+    const intervals = spanToIntervals(suffixes[0], settings, options)
+      + this.getSplitIntervals(settings).chapters[chapterIndex];
+    return intervals * calculateBaseInterval(wpm);
+  }
+
+  // Reading time from `position` (inclusive) to the end of its chapter and the book
+  getRemaining(
+    position: ReadingPosition,
+    wpm: number,
+    settings: TimingSettings,
+    options: EstimateOptions = DEFAULT_ESTIMATE_OPTIONS
+  ): TimeRemaining {
+    const { chapterIndex, paragraphIndex, wordIndex } = position;
+    const suffixes = this.paragraphSuffixes[chapterIndex];
+    if (!suffixes) return { chapterMs: 0, bookMs: 0 };
+
+    // Rest of the current paragraph is summed chunk by chunk from here, as
+    // chunks are built from the current word
+    const chapterUnits = emptySpan();
+    const splits: SplitWord[] = [];
+    const paragraph = this.book.chapters[chapterIndex].paragraphs[paragraphIndex];
+    if (paragraph) this.addParagraphUnits(chapterUnits, splits, paragraph, paragraphIndex, wordIndex);
+    addSpan(chapterUnits, suffixes[Math.min(paragraphIndex + 1, suffixes.length - 1)]);
+    splits.push(...this.splitWords[chapterIndex].filter(split => split.paragraphIndex > paragraphIndex));
+
+    const chapterIntervals = spanToIntervals(chapterUnits, settings, options) + splitIntervals(splits, settings);
+
+    // Later chapters, leaving out matter that playback skips
+    const splitCache = this.getSplitIntervals(settings);
+    const later = (options.skipMatter ? this.bodyChapterSuffixes : this.chapterSuffixes)[chapterIndex + 1];
+    const laterSplits = (options.skipMatter ? splitCache.bodySuffixes : splitCache.suffixes)[chapterIndex + 1];
+    const laterIntervals = spanToIntervals(later, settings, options) + laterSplits;
+
+    const baseInterval = calculateBaseInterval(wpm);
+    return {
+      chapterMs: chapterIntervals * baseInterval,
+      bookMs: (chapterIntervals + laterIntervals) * baseInterval,
+    };
+  }
+
+  // Number of words before `position` in the whole book
+  getWordOffset(position: ReadingPosition): number {
+    const chapterOffset = this.chapterWordOffsets[position.chapterIndex] ?? 0;
+    const paragraphOffset = this.paragraphWordOffsets[position.chapterIndex]?.[position.paragraphIndex] ?? 0;
+    return chapterOffset + paragraphOffset + position.wordIndex;
+  }
+
+  getTotalWords(): number {
+    return this.totalWords;
+  }
+}
+
+// Compact human-readable duration, e.g. "45s", "12 min", "4h 10m"
+export function formatTimeEstimate(ms: number): string {
+  const totalMinutes = Math.round(ms / 60000);
+  if (totalMinutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (totalMinutes < 60) return `${totalMinutes} min`;
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+}
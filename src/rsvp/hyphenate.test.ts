@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { hyphenate } from './hyphenate';
+
+describe('hyphenate', () => {
+  it('leaves words that fit alone', () => {
+    expect(hyphenate('short', 8)).toEqual(['short']);
+    expect(hyphenate('exactly8', 8)).toEqual(['exactly8']);
+    // Too narrow to split into readable segments
+    expect(hyphenate('abcdefghijklmnop', 3)).toEqual(['abcdefghijklmnop']);
+  });
+
+  it('breaks after separators without adding hyphens', () => {
+    expect(hyphenate('https://example.com/some/long/path', 12)).toEqual(['https://', 'example.com/', 'some/long/', 'path']);
+    expect(hyphenate('2-methylpropanamine', 10)).toEqual(['2-', 'methylpro-', 'panamine']);
+  });
+
+  it('prefers affix boundaries', () => {
+    expect(hyphenate('nationalization', 9)).toEqual(['national-', 'ization']);
+    expect(hyphenate('antidisestablishmentarianism', 10)[0]).toBe('anti-');
+  });
+
+  it('breaks between lowercase and uppercase letters', () => {
+    expect(hyphenate('parseHTMLString', 8)[0]).toBe('parse-');
+  });
+
+  it('cuts words with no break points at the widest hyphenated segment', () => {
+    expect(hyphenate('xxxxxxxxxxxxxxxxxxxx', 6)).toEqual(['xxxxx-', 'xxxxx-', 'xxxxx-', 'xxxxx']);
+  });
+
+  it.each([
+    ['incomprehensibilities', 8],
+    ['Donaudampfschifffahrtsgesellschaft', 10],
+    ['antidisestablishmentarianism', 7],
+    ['https://example.com/a?query=string&with=parameters', 10],
+    ['pneumonoultramicroscopicsilicovolcanoconiosis', 12],
+    ['ab-cdefghijklmnopqrstu', 5],
+  ])('splits %s into segments of at most %i characters covering the word', (word, maxLength) => {
+    const segments = hyphenate(word, maxLength);
+    expect(segments.length).toBeGreaterThan(1);
+    for (const segment of segments) {
+      expect(segment.length).toBeLessThanOrEqual(maxLength);
+    }
+    expect(segments.join('').replace(/-/g, '')).toBe(word.replace(/-/g, ''));
+    expect(segments[segments.length - 1].length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('keeps digraphs together', () => {
+    // Never "philos-ophically" or "philosop-hically"
+    expect(hyphenate('philosophically', 6)).toEqual(['philo-', 'soph-', 'ically']);
+  });
+});
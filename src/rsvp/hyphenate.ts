@@ -0,0 +1,114 @@
+// Splits over-long tokens (URLs, chemical names, compounds) into displayable
+// segments, preferring natural break points over hard cuts.
+
+// Segments shorter than this read as noise
+const MIN_SEGMENT_LENGTH = 3;
+
+// Characters a break can follow without adding a hyphen
+const SEPARATORS = new Set(['-', '/', '.', '_', '?', '&', '=', '—', '–', ':', '+']);
+
+// Affixes that mark likely compound/morpheme boundaries. Small and local on
+// purpose: a full Liang pattern set is overkill for occasional long words.
+const PREFIXES = [
+  'anti', 'counter', 'electro', 'hyper', 'inter', 'micro', 'multi', 'over',
+  'photo', 'poly', 'super', 'trans', 'ultra', 'under',
+];
+const SUFFIXES = [
+  'ability', 'ation', 'ization', 'ibility', 'ically', 'ology', 'ment', 'ness',
+  'ship', 'hood', 'less', 'able', 'ible', 'tion', 'sion', 'ally',
+  // German
+  'schaft', 'keit', 'heit', 'ung', 'lich',
+  // Chemistry
+  'methyl', 'ethyl', 'phenyl', 'amine', 'oxide', 'acid',
+];
+
+// Consonant pairs that shouldn't be split
+const DIGRAPHS = new Set(['ch', 'ck', 'gh', 'ph', 'qu', 'sh', 'th', 'wh', 'ng', 'tz', 'sch']);
+
+const VOWELS = /[aeiouyäöüàáâèéêìíîòóôùúû]/i;
+const LETTER = /\p{L}/u;
+
+function isVowel(ch: string | undefined): boolean {
+  return ch !== undefined && VOWELS.test(ch);
+}
+
+function isConsonant(ch: string | undefined): boolean {
+  return ch !== undefined && LETTER.test(ch) && !VOWELS.test(ch);
+}
+
+interface BreakPoint {
+  score: number;
+  // Whether the break falls after a separator (no hyphen needed)
+  natural: boolean;
+}
+
+// Score a break between word[i - 1] and word[i]; null means never break here
+function scoreBreak(word: string, lower: string, i: number): BreakPoint | null {
+  const prev = word[i - 1];
+  const next = word[i];
+
+  if (SEPARATORS.has(prev)) return { score: 4, natural: true };
+  if (SEPARATORS.has(next)) return null;
+
+  // camelCase and letter/digit boundaries
+  if (/\p{Ll}/u.test(prev) && /\p{Lu}/u.test(next)) return { score: 3, natural: false };
+  if (/\d/.test(prev) !== /\d/.test(next)) return { score: 2, natural: false };
+
+  if (DIGRAPHS.has(lower.slice(i - 1, i + 1)) || DIGRAPHS.has(lower.slice(i - 2, i + 1))) {
+    return null;
+  }
+
+  if (SUFFIXES.some(s => lower.startsWith(s, i))) return { score: 3, natural: false };
+  if (PREFIXES.some(p => i === p.length && lower.startsWith(p))) return { score: 3, natural: false };
+
+  // Syllable boundaries: VC|CV, then V|CV
+  if (isVowel(word[i - 2]) && isConsonant(prev) && isConsonant(next) && isVowel(word[i + 1])) {
+    return { score: 2, natural: false };
+  }
+  if (isVowel(prev) && isConsonant(next) && isVowel(word[i + 1])) {
+    return { score: 1, natural: false };
+  }
+
+  return null;
+}
+
+// Split `word` into segments of at most maxLength characters (including any
+// added hyphen). Words that already fit are returned unchanged.
+export function hyphenate(word: string, maxLength: number): string[] {
+  if (maxLength <= MIN_SEGMENT_LENGTH || word.length <= maxLength) return [word];
+
+  const lower = word.toLowerCase();
+  const segments: string[] = [];
+  let start = 0;
+
+  while (word.length - start > maxLength) {
+    let best: { index: number; point: BreakPoint } | null = null;
+
+    // Leave room for a trailing hyphen and a reasonable final segment
+    const lastIndex = Math.min(start + maxLength, word.length - MIN_SEGMENT_LENGTH);
+    for (let i = start + 2; i <= lastIndex; i++) {
+      const point = scoreBreak(word, lower, i);
+      if (!point) continue;
+      // Separators may use the full width and allow shorter segments,
+      // since they need no hyphen
+      if (!point.natural && (i - start < MIN_SEGMENT_LENGTH || i - start > maxLength - 1)) continue;
+      // Prefer higher scores, then later breaks for fuller segments
+      if (!best || point.score >= best.point.score) {
+        best = { index: i, point };
+      }
+    }
+
+    if (best) {
+      segments.push(word.slice(start, best.index) + (best.point.natural ? '' : '-'));
+      start = best.index;
+    } else {
+      // No good break point: hard cut
+      const cut = Math.max(start + 1, Math.min(start + maxLength - 1, word.length - 1));
+      segments.push(word.slice(start, cut) + '-');
+      start = cut;
+    }
+  }
+
+  segments.push(word.slice(start));
+  return segments;
+}
@@ -0,0 +1,119 @@
+// Language-specific text handling, keyed off the book's dc:language tag
+
+export type TextDirection = 'ltr' | 'rtl';
+
+// Scripts written without spaces between words; these need a dictionary
+// based segmenter instead of splitting on whitespace
+const UNSPACED_LANGUAGES = new Set(['zh', 'ja', 'th', 'lo', 'km', 'my']);
+
+// Languages where a word is typically one to three characters, so the
+// ORP sits near the middle rather than just left of it
+const CJK_LANGUAGES = new Set(['zh', 'ja', 'ko']);
+
+const RTL_LANGUAGES = new Set(['ar', 'he', 'fa', 'ur', 'yi', 'ps', 'sd', 'ug', 'dv', 'ckb']);
+
+// Used when the book doesn't declare a language
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const CJK_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const RTL_CHAR = /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}]/u;
+const LETTER = /\p{L}/u;
+
+// Opening punctuation binds to the following token, everything else to the preceding one
+const OPENING_PUNCTUATION = /^[\p{Ps}\p{Pi}]+$/u;
+
+// Primary subtag of a BCP 47 tag: "zh-Hant-TW" -> "zh", "" for missing/undetermined
+export function normalizeLanguage(tag: string | undefined | null): string {
+  const primary = (tag ?? '').trim().toLowerCase().split(/[-_]/)[0];
+  return primary === 'und' ? '' : primary;
+}
+
+export function isUnspacedLanguage(language: string): boolean {
+  return UNSPACED_LANGUAGES.has(normalizeLanguage(language));
+}
+
+// CJK rules apply for CJK books, or to Han/Kana/Hangul words when the book
+// doesn't declare a language
+export function usesCJKRules(word: string, language: string): boolean {
+  const lang = normalizeLanguage(language);
+  return lang ? CJK_LANGUAGES.has(lang) : CJK_SCRIPT.test(word);
+}
+
+export function getTextDirection(language: string): TextDirection {
+  return RTL_LANGUAGES.has(normalizeLanguage(language)) ? 'rtl' : 'ltr';
+}
+
+// Direction of a single word from its first strongly-directional letter,
+// so embedded Latin words in an RTL book (and vice versa) render correctly
+export function getWordDirection(text: string, fallback: TextDirection): TextDirection {
+  for (const ch of text) {
+    if (RTL_CHAR.test(ch)) return 'rtl';
+    if (LETTER.test(ch)) return 'ltr';
+  }
+  return fallback;
+}
+
+// What to put between tokens when rebuilding running text for display
+export function getWordSeparator(language: string): string {
+  return isUnspacedLanguage(language) ? '' : ' ';
+}
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+function getSegmenter(language: string): Intl.Segmenter | null {
+  if (typeof Intl === 'undefined' || !('Segmenter' in Intl)) return null;
+  let segmenter = segmenters.get(language);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(language || undefined, { granularity: 'word' });
+    segmenters.set(language, segmenter);
+  }
+  return segmenter;
+}
+
+// Split unspaced text into words, attaching punctuation to a neighbouring
+// word so it still drives punctuation pauses
+function segmentText(text: string, language: string): string[] {
+  const segmenter = getSegmenter(language);
+  // Without Intl.Segmenter, fall back to one character per token
+  const segments = segmenter
+    ? Array.from(segmenter.segment(text), s => ({ text: s.segment, isWord: s.isWordLike ?? false }))
+    : Array.from(text, ch => ({ text: ch, isWord: /[\p{L}\p{N}]/u.test(ch) }));
+
+  const tokens: string[] = [];
+  let pending = '';
+
+  for (const segment of segments) {
+    const trimmed = segment.text.trim();
+    if (trimmed.length === 0) continue;
+
+    if (segment.isWord) {
+      tokens.push(pending + trimmed);
+      pending = '';
+    } else if (OPENING_PUNCTUATION.test(trimmed) || tokens.length === 0) {
+      pending += trimmed;
+    } else {
+      tokens[tokens.length - 1] += trimmed;
+    }
+  }
+
+  if (pending) {
+    if (tokens.length > 0) tokens[tokens.length - 1] += pending;
+    else tokens.push(pending);
+  }
+
+  return tokens;
+}
+
+// Split paragraph text into displayable words for the given language
+export function tokenize(text: string, language: string): string[] {
+  const lang = normalizeLanguage(language);
+  const words = text.split(/\s+/).filter(w => w.length > 0);
+
+  if (UNSPACED_LANGUAGES.has(lang)) {
+    return words.flatMap(w => segmentText(w, lang));
+  }
+  // Undeclared language: only segment runs that are clearly unspaced script
+  if (!lang) {
+    return words.flatMap(w => (w.length > 1 && UNSPACED_SCRIPT.test(w) ? segmentText(w, lang) : [w]));
+  }
+  return words;
+}
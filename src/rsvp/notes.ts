@@ -0,0 +1,21 @@
+import type { NoteMode, NoteRef, Paragraph, ProcessedWord } from '../types';
+import { processText, processWord } from './word-processor';
+
+export const DEFAULT_NOTE_MODE: NoteMode = 'skip';
+
+// Note markers that follow words in [from, to] of the paragraph
+export function getNoteRefsInRange(paragraph: Paragraph, from: number, to: number): NoteRef[] {
+  return (paragraph.notes ?? []).filter(ref => ref.wordIndex >= from && ref.wordIndex <= to);
+}
+
+// Words to flash for inline notes, each introduced by its marker label
+export function buildNoteWords(
+  refs: NoteRef[],
+  notes: Record<string, string>,
+  language: string
+): ProcessedWord[] {
+  return refs.flatMap(ref => [
+    processWord(`[${ref.label}]`, language),
+    ...processText(notes[ref.noteId] ?? '', language),
+  ]);
+}
@@ -0,0 +1,33 @@
+import type { ProcessedWord } from '../types';
+import { getPunctuationClass } from './timing';
+
+export type RewindMode = 'off' | 'sentence' | 'words';
+
+export interface ResumeSettings {
+  rewindMode: RewindMode;
+  rewindWords: number;            // 1 - 20 (used by 'words' mode)
+  rewindThresholdSeconds: number; // only rewind after pauses at least this long
+}
+
+export const DEFAULT_RESUME_SETTINGS: ResumeSettings = {
+  rewindMode: 'off',
+  rewindWords: 5,
+  rewindThresholdSeconds: 10,
+};
+
+// Ellipses count too: rewinding slightly too little beats splitting a sentence
+export function isSentenceEnd(word: string, language = '', next = ''): boolean {
+  const punctuationClass = getPunctuationClass(word, language, next);
+  return punctuationClass === 'sentence' || punctuationClass === 'ellipsis';
+}
+
+// Index of the first word of the sentence containing `index`.
+// Paragraph starts always count as sentence starts.
+export function findSentenceStart(words: ProcessedWord[], index: number, language = ''): number {
+  for (let i = Math.min(index, words.length) - 1; i >= 0; i--) {
+    if (isSentenceEnd(words[i].text, language, words[i + 1]?.text ?? '')) {
+      return i + 1;
+    }
+  }
+  return 0;
+}
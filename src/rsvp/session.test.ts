@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { RSVPEngine } from './engine';
+import { ReadingSessionTracker } from './session';
+import type { ReadingSession } from './session';
+import { FakeClock, makeBook } from '../test/helpers';
+
+// At 300 WPM every plain word gets a 200ms base interval
+const BASE = 200;
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+
+function setup() {
+  const clock = new FakeClock();
+  const engine = new RSVPEngine(clock);
+  engine.setWPM(300);
+  engine.loadBook(makeBook([[Array.from({ length: 100 }, () => 'word').join(' ')]]));
+
+  const sessions: ReadingSession[] = [];
+  const tracker = new ReadingSessionTracker(engine, session => sessions.push(session), clock);
+  tracker.start();
+
+  // Play for exactly `words` word intervals, then pause
+  const read = (words: number) => {
+    engine.play();
+    clock.advance(words * BASE);
+    engine.pause();
+  };
+  return { clock, engine, tracker, sessions, read };
+}
+
+describe('ReadingSessionTracker', () => {
+  it('records the words read and their pace when stopped', () => {
+    const { clock, tracker, sessions, read } = setup();
+    clock.advance(1000);
+    read(10);
+    tracker.stop();
+
+    expect(sessions).toEqual([{ sessionStart: 1000, sessionEnd: 1000 + 10 * BASE, wordsRead: 10, avgWpm: 300 }]);
+  });
+
+  it('leaves time spent paused out of the pace', () => {
+    const { clock, tracker, sessions, read } = setup();
+    read(10);
+    clock.advance(60_000);
+    read(10);
+    tracker.stop();
+
+    expect(sessions).toEqual([{ sessionStart: 0, sessionEnd: 60_000 + 20 * BASE, wordsRead: 20, avgWpm: 300 }]);
+  });
+
+  it('splits sessions at a pause longer than the idle timeout', () => {
+    const { clock, tracker, sessions, read } = setup();
+    read(10);
+    clock.advance(IDLE_TIMEOUT - 1);
+    expect(sessions).toHaveLength(0);
+    clock.advance(1);
+    expect(sessions).toEqual([{ sessionStart: 0, sessionEnd: 10 * BASE, wordsRead: 10, avgWpm: 300 }]);
+
+    const resumedAt = clock.now();
+    read(6);
+    tracker.stop();
+    expect(sessions.slice(1)).toEqual([
+      { sessionStart: resumedAt, sessionEnd: resumedAt + 6 * BASE, wordsRead: 6, avgWpm: 300 },
+    ]);
+  });
+
+  it('drops sessions with too few words to be worth recording', () => {
+    const { clock, tracker, sessions, read } = setup();
+    read(4);
+    clock.advance(IDLE_TIMEOUT);
+    expect(sessions).toHaveLength(0);
+    expect(tracker.getCurrent()).toBeNull();
+
+    read(5);
+    tracker.stop();
+    expect(sessions.map(session => session.wordsRead)).toEqual([5]);
+  });
+
+  it('reports the session in progress while playing', () => {
+    const { clock, engine, tracker, read } = setup();
+    expect(tracker.getCurrent()).toBeNull();
+
+    read(10);
+    engine.play();
+    clock.advance(5 * BASE + BASE / 2);
+    expect(tracker.getCurrent()).toEqual({
+      sessionStart: 0,
+      sessionEnd: 15.5 * BASE,
+      wordsRead: 15,
+      avgWpm: Math.round(15 / (15.5 * BASE / 60000)),
+    });
+  });
+
+  it('picks up a book that is already playing when started', () => {
+    const clock = new FakeClock();
+    const engine = new RSVPEngine(clock);
+    engine.setWPM(300);
+    engine.loadBook(makeBook([[Array.from({ length: 20 }, () => 'word').join(' ')]]));
+    engine.play();
+    clock.advance(5 * BASE);
+
+    const sessions: ReadingSession[] = [];
+    const tracker = new ReadingSessionTracker(engine, session => sessions.push(session), clock);
+    tracker.start();
+    clock.advance(5 * BASE);
+    tracker.stop();
+    expect(sessions).toEqual([{ sessionStart: 5 * BASE, sessionEnd: 10 * BASE, wordsRead: 5, avgWpm: 300 }]);
+  });
+});
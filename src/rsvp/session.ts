@@ -0,0 +1,134 @@
+import type { RSVPEngine } from './engine';
+import { wallClock } from './clock';
+import type { Clock, TimerHandle } from './clock';
+
+export interface ReadingSession {
+  sessionStart: number;
+  sessionEnd: number;
+  wordsRead: number;
+  avgWpm: number | null;
+}
+
+// A pause longer than this closes the current session
+const SESSION_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Sessions with fewer words than this aren't worth recording
+const MIN_SESSION_WORDS = 5;
+
+type SessionCallback = (session: ReadingSession) => void;
+
+// Tracks reading sessions from engine playback: a session starts on the first
+// play, accumulates words advanced while playing, and ends when the reader
+// leaves the book or stays paused longer than SESSION_IDLE_TIMEOUT_MS.
+export class ReadingSessionTracker {
+  private engine: RSVPEngine;
+  private onSessionEnd: SessionCallback;
+  private clock: Clock;
+  private cleanup: (() => void)[] = [];
+
+  private sessionStart: number | null = null;
+  private lastActiveAt = 0;
+  private playStartedAt: number | null = null;
+  private activeMs = 0;
+  private wordsRead = 0;
+  private idleTimer: TimerHandle | null = null;
+
+  constructor(engine: RSVPEngine, onSessionEnd: SessionCallback, clock: Clock = wallClock) {
+    this.engine = engine;
+    this.onSessionEnd = onSessionEnd;
+    this.clock = clock;
+  }
+
+  start(): void {
+    this.stop();
+
+    this.cleanup.push(
+      this.engine.onStatusChange((status) => {
+        if (status === 'playing') {
+          this.handlePlay();
+        } else {
+          this.handlePause();
+        }
+      })
+    );
+    this.cleanup.push(
+      this.engine.onAdvance((count) => {
+        if (this.playStartedAt !== null) {
+          this.wordsRead += count;
+        }
+      })
+    );
+
+    if (this.engine.getStatus() === 'playing') {
+      this.handlePlay();
+    }
+  }
+
+  // Ends the current session (if any) and detaches from the engine
+  stop(): void {
+    this.handlePause();
+    this.endSession();
+    this.cleanup.forEach(fn => fn());
+    this.cleanup = [];
+  }
+
+  // Snapshot of the in-progress session, or null if nothing has been read yet
+  getCurrent(): ReadingSession | null {
+    if (this.sessionStart === null) return null;
+
+    const now = this.clock.now();
+    const activeMs = this.activeMs + (this.playStartedAt !== null ? now - this.playStartedAt : 0);
+    const sessionEnd = this.playStartedAt !== null ? now : this.lastActiveAt;
+
+    return {
+      sessionStart: this.sessionStart,
+      sessionEnd,
+      wordsRead: this.wordsRead,
+      avgWpm: activeMs > 0 ? Math.round(this.wordsRead / (activeMs / 60000)) : null,
+    };
+  }
+
+  private handlePlay(): void {
+    this.clearIdleTimer();
+    if (this.playStartedAt !== null) return;
+
+    const now = this.clock.now();
+    if (this.sessionStart === null) {
+      this.sessionStart = now;
+    }
+    this.playStartedAt = now;
+  }
+
+  private handlePause(): void {
+    if (this.playStartedAt === null) return;
+
+    const now = this.clock.now();
+    this.activeMs += now - this.playStartedAt;
+    this.lastActiveAt = now;
+    this.playStartedAt = null;
+
+    this.clearIdleTimer();
+    this.idleTimer = this.clock.setTimeout(() => this.endSession(), SESSION_IDLE_TIMEOUT_MS);
+  }
+
+  private endSession(): void {
+    this.clearIdleTimer();
+
+    const session = this.getCurrent();
+    this.sessionStart = null;
+    this.playStartedAt = null;
+    this.activeMs = 0;
+    this.wordsRead = 0;
+
+    if (session && session.wordsRead >= MIN_SESSION_WORDS) {
+      this.onSessionEnd(session);
+    }
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer !== null) {
+      this.clock.clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { getPunctuationClass } from './timing';
+
+describe('getPunctuationClass', () => {
+  // [word, language, following word, expected class]
+  it.each([
+    // Plain punctuation
+    ['end.', 'en', '', 'sentence'],
+    ['wait,', 'en', 'what', 'clause'],
+    ['so…', 'en', '', 'ellipsis'],
+    ['so...', 'en', '', 'ellipsis'],
+    ['this—that', 'en', '', 'dash'],
+    ['-', 'en', 'then', 'dash'],
+    ['well-', 'en', 'made', 'hyphen'],
+    ['end.”', 'en', '', 'sentence'],
+    ['word', 'en', '', null],
+
+    // Titles and other abbreviations
+    ['Dr.', 'en', 'Watson', null],
+    ['Mrs.', 'en', 'Hudson', null],
+    ['e.g.', 'en', 'this', null],
+    ['U.S.', 'en', 'Army', null],
+    ['J.', 'en', 'Smith', null],
+    ['(Dr.', 'en', 'Watson', null],
+
+    // "I" is the pronoun, not an initial
+    ['I.', 'en', '', 'sentence'],
+    ['I.', 'en', 'Then', 'sentence'],
+
+    // Words that double as names or sentence ends
+    ['Ed.', 'en', 'Then', 'sentence'],
+    ['co.', 'en', 'The', 'sentence'],
+    ['St.', 'en', 'The', 'sentence'],
+
+    // Number-style abbreviations need a number after them
+    ['No.', 'en', '5', null],
+    ['no.', 'en', '', 'sentence'],
+    ['no.', 'en', 'She', 'sentence'],
+    ['fig.', 'en', '3', null],
+    ['fig.', 'en', '(3)', null],
+    ['fig.', 'en', '', 'sentence'],
+    ['vol.', 'en', 'II', 'sentence'],
+    ['pp.', 'en', '12–14', null],
+    ['Nr.', 'de', '7', null],
+    ['Nr.', 'de', 'Dann', 'sentence'],
+
+    // Numbers: short ones are ordinals only when the sentence carries on
+    ['21.', 'en', '', 'sentence'],
+    ['12.', 'en', 'The', 'sentence'],
+    ['3.', 'en', 'Then', 'sentence'],
+    ['(3.)', 'en', 'Then', 'sentence'],
+    ['3.', 'en', 'then', null],
+    ['3.', '', '“and', null],
+    ['3.', 'de', 'Oktober', null],
+    ['21.', 'de', '', 'sentence'],
+    ['1999.', 'en', '', 'sentence'],
+    ['1999.', 'en', 'then', 'sentence'],
+
+    // Per-language lists
+    ['bzw.', 'de', 'die', null],
+    ['bzw.', 'en', 'the', 'sentence'],
+    ['Mme.', 'fr', 'Bovary', null],
+    ['Mr.', 'fr', 'Smith', 'sentence'],
+
+    // Books without a language use the English lists
+    ['Mr.', '', 'Smith', null],
+    ['no.', '', '', 'sentence'],
+    ['bzw.', '', 'die', 'sentence'],
+  ] as const)('%s (%s, before "%s") is %s', (word, language, next, expected) => {
+    expect(getPunctuationClass(word, language, next)).toBe(expected);
+  });
+});
@@ -1,16 +1,48 @@
+import type { ProcessedWord, WordStyle } from '../types';
 import { getWordBucketMultiplier } from '../wordlist';
+import { normalizeLanguage } from './language';
+
+export type PunctuationClass = 'sentence' | 'clause' | 'ellipsis' | 'dash' | 'hyphen';
 
 // Punctuation delay multipliers (of base interval, not fixed ms)
 // This scales naturally with WPM
-const PUNCTUATION_MULTIPLIERS: Record<string, number> = {
-  ',': 0.75,
-  ';': 0.75,
-  ':': 0.75,
-  '.': 1.5,
-  '!': 1.5,
-  '?': 1.5,
-  '—': 1.0,
-  '-': 0.25,
+export type PunctuationMultipliers = Record<PunctuationClass, number>;
+
+export const DEFAULT_PUNCTUATION_MULTIPLIERS: PunctuationMultipliers = {
+  sentence: 1.5,
+  clause: 0.75,
+  ellipsis: 1.25,
+  dash: 1.0,
+  hyphen: 0.25,
+};
+
+export const PUNCTUATION_CLASSES: PunctuationClass[] = ['sentence', 'clause', 'ellipsis', 'dash', 'hyphen'];
+
+const PUNCTUATION_CLASS_BY_CHAR: Record<string, PunctuationClass> = {
+  ',': 'clause',
+  ';': 'clause',
+  ':': 'clause',
+  '.': 'sentence',
+  '!': 'sentence',
+  '?': 'sentence',
+  '…': 'ellipsis',
+  '—': 'dash',
+  '–': 'dash',
+  '-': 'hyphen',
+  // CJK
+  '。': 'sentence',
+  '！': 'sentence',
+  '？': 'sentence',
+  '，': 'clause',
+  '、': 'clause',
+  '；': 'clause',
+  '：': 'clause',
+  // Arabic script and Devanagari
+  '؟': 'sentence',
+  '۔': 'sentence',
+  '।': 'sentence',
+  '،': 'clause',
+  '؛': 'clause',
 };
 
 export interface TimingSettings {
@@ -18,6 +50,12 @@ export interface TimingSettings {
   lengthDelayFactor: number;      // 0.0 - 0.5
   frequencyDelayEnabled: boolean;
   frequencyDelayFactor: number;   // 0.0 - 1.0
+  emphasisDelayEnabled: boolean;
+  emphasisDelayFactor: number;    // 0.0 - 1.0
+  rampUpEnabled: boolean;
+  rampUpStartFactor: number;      // 0.25 - 1.0 (fraction of target WPM)
+  rampUpWords: number;            // 5 - 50
+  punctuationMultipliers: PunctuationMultipliers;
 }
 
 export const DEFAULT_TIMING_SETTINGS: TimingSettings = {
@@ -25,17 +63,148 @@ export const DEFAULT_TIMING_SETTINGS: TimingSettings = {
   lengthDelayFactor: 0.1,
   frequencyDelayEnabled: false,
   frequencyDelayFactor: 0.3,
+  emphasisDelayEnabled: false,
+  emphasisDelayFactor: 0.3,
+  rampUpEnabled: false,
+  rampUpStartFactor: 0.5,
+  rampUpWords: 15,
+  punctuationMultipliers: DEFAULT_PUNCTUATION_MULTIPLIERS,
 };
 
 export function calculateBaseInterval(wpm: number): number {
   return 60000 / wpm;
 }
 
+// Ramp-up: start at a fraction of the target WPM and accelerate linearly
+// to full speed over the first rampUpWords words after playback starts
+export function calculateRampWpm(
+  targetWpm: number,
+  wordsShown: number,
+  settings: TimingSettings
+): number {
+  if (!settings.rampUpEnabled || wordsShown >= settings.rampUpWords) {
+    return targetWpm;
+  }
+  const progress = wordsShown / settings.rampUpWords;
+  const factor = settings.rampUpStartFactor + (1 - settings.rampUpStartFactor) * progress;
+  return targetWpm * factor;
+}
+
+// Abbreviations whose trailing period doesn't end a sentence, lowercased and
+// without the final period. Dotted forms like "e.g." and "z.B." are caught
+// by pattern instead. "etc." is left out since it usually does end one, as
+// are words that double as names or common sentence ends ("Ed.", "co.",
+// "St." for Street).
+const ABBREVIATIONS: Record<string, string[]> = {
+  en: [
+    'mr', 'mrs', 'ms', 'dr', 'prof', 'jr', 'sr', 'rev', 'gen', 'capt', 'lt', 'col', 'sgt',
+    'vs', 'approx', 'inc', 'ltd', 'corp', 'mt', 'ave',
+  ],
+  de: ['bzw', 'usw', 'ca', 'hr', 'fr', 'dr', 'prof', 'str', 'vgl', 'evtl', 'ggf', 'bzgl', 'inkl', 'sog'],
+  fr: ['mme', 'mlle', 'mm', 'dr', 'st', 'ste', 'cf', 'env'],
+  es: ['sr', 'sra', 'srta', 'dr', 'dra', 'ud', 'uds', 'aprox'],
+  it: ['sig', 'sigg', 'dott', 'prof', 'ecc', 'avv', 'ing'],
+};
+
+// Abbreviations that stand before a number ("No. 5", "fig. 3"). Without one
+// following they're ordinary words ending a sentence ("the answer was no.").
+const NUMBER_ABBREVIATIONS: Record<string, string[]> = {
+  en: ['no', 'nos', 'fig', 'figs', 'vol', 'ch', 'p', 'pp'],
+  de: ['nr', 'abb', 'bd', 's'],
+  fr: ['vol', 'chap', 'fig', 'p'],
+  es: ['pág', 'núm', 'fig', 'vol'],
+  it: ['pag', 'fig', 'vol'],
+};
+
+// Quotes and brackets that can trail the punctuation that really ends a word
+const CLOSING_MARKS = /['"”’»)\]}」』）〉》]+$/u;
+const OPENING_MARKS = /^['"“‘«(\[{「『（〈《]+/u;
+
+// `next` is the word that follows, if any. Books that don't declare a
+// language get the English lists.
+function isAbbreviation(core: string, language: string, next: string): boolean {
+  const lower = core.toLowerCase();
+  // Initials and dotted abbreviations: "J.", "U.S.", "e.g.", "z.B." ("I."
+  // is the pronoun ending a sentence far more often than an initial)
+  if ((/^\p{Lu}$/u.test(core) && core !== 'I') || /^(\p{L}\.)+\p{L}$/u.test(core)) return true;
+  const lang = normalizeLanguage(language) || 'en';
+  if (ABBREVIATIONS[lang]?.includes(lower)) return true;
+  return /^\d/.test(next.replace(OPENING_MARKS, '')) && !!NUMBER_ABBREVIATIONS[lang]?.includes(lower);
+}
+
+// Languages that write ordinals as a number and a period ("am 3. Oktober")
+const PERIOD_ORDINAL_LANGUAGES = new Set(['de', 'da', 'nb', 'nn', 'no', 'fi', 'is', 'et', 'lv', 'cs', 'sk', 'pl', 'sl', 'hr', 'sr', 'hu', 'tr']);
+
+// Whether a short number ending in a period is an ordinal or list marker
+// ("3. Oktober", "2. then stir") rather than a sentence ending in it ("She
+// turned 21."). Ordinals carry on the sentence, so something follows; in
+// most languages that's a lowercase word, but ordinal-period languages
+// write them before capitalised nouns too.
+function isOrdinal(language: string, next: string): boolean {
+  const word = next.replace(OPENING_MARKS, '');
+  if (word.length === 0) return false;
+  if (PERIOD_ORDINAL_LANGUAGES.has(normalizeLanguage(language))) return true;
+  return !/^\p{Lu}/u.test(word);
+}
+
+// Which kind of punctuation pause a word ends with, if any. Looks past
+// closing quotes/brackets ("end.”" is a sentence end) and doesn't pause on
+// abbreviations, initials or ordinals ("Dr.", "J.", "3. Oktober"). `next`
+// is the following word, which tells "No. 5" from "the answer was no."
+export function getPunctuationClass(word: string, language = '', next = ''): PunctuationClass | null {
+  const text = word.replace(CLOSING_MARKS, '');
+  if (text.length === 0) return null;
+
+  if (text.endsWith('...') || text.endsWith('…')) return 'ellipsis';
+  if (text.endsWith('--')) return 'dash';
+
+  if (text.endsWith('.')) {
+    const core = text.slice(0, -1).replace(OPENING_MARKS, '');
+    if (core.length === 0) return null;
+    if (isAbbreviation(core, language, next)) return null;
+    if (/^\d{1,2}$/.test(core) && isOrdinal(language, next)) return null;
+    return 'sentence';
+  }
+
+  const lastChar = text.slice(-1);
+  const punctuationClass = PUNCTUATION_CLASS_BY_CHAR[lastChar];
+  if (punctuationClass) {
+    // A lone hyphen token is a spaced dash ("word - word")
+    return punctuationClass === 'hyphen' && text.length === 1 ? 'dash' : punctuationClass;
+  }
+
+  // An unspaced dash between words ("this—that") still marks a break
+  if (/\p{L}(?:—|--)\p{L}/u.test(text)) return 'dash';
+
+  return null;
+}
+
+// Punctuation pause for a word, as a multiple of the base interval
+export function getPunctuationMultiplier(
+  word: string,
+  multipliers: PunctuationMultipliers = DEFAULT_PUNCTUATION_MULTIPLIERS,
+  language = '',
+  next = ''
+): number {
+  const punctuationClass = getPunctuationClass(word, language, next);
+  return punctuationClass ? multipliers[punctuationClass] : 0;
+}
+
 // Punctuation delay (now scales with WPM)
-export function calculatePunctuationDelay(word: string, baseInterval: number): number {
-  const lastChar = word.slice(-1);
-  const multiplier = PUNCTUATION_MULTIPLIERS[lastChar] ?? 0;
-  return baseInterval * multiplier;
+export function calculatePunctuationDelay(
+  word: string,
+  baseInterval: number,
+  multipliers: PunctuationMultipliers = DEFAULT_PUNCTUATION_MULTIPLIERS,
+  language = '',
+  next = ''
+): number {
+  return baseInterval * getPunctuationMultiplier(word, multipliers, language, next);
+}
+
+// Characters beyond the first five, ignoring punctuation
+export function getExtraLength(word: string): number {
+  const stripped = word.replace(/[^\p{L}\p{N}]/gu, '');
+  return Math.max(0, stripped.length - 5);
 }
 
 // Length delay: longer words show longer
@@ -45,11 +214,7 @@ export function calculateLengthDelay(
   baseInterval: number,
   factor: number
 ): number {
-  // Strip punctuation for length calculation
-  const stripped = word.replace(/[^a-zA-Z0-9]/g, '');
-  const extraChars = stripped.length - 5;
-  if (extraChars <= 0) return 0;
-  return extraChars * factor * baseInterval;
+  return getExtraLength(word) * factor * baseInterval;
 }
 
 // Frequency delay: uncommon words show longer
@@ -63,18 +228,26 @@ export function calculateFrequencyDelay(
   return bucketMultiplier * factor * baseInterval;
 }
 
+// Italic, bold and small-caps words are stressed; code formatting isn't
+export function isEmphasized(style: WordStyle | undefined): boolean {
+  return !!(style?.italic || style?.bold || style?.smallCaps);
+}
+
 // Calculate total delay for a word
 export function calculateTotalDelay(
   word: string,
   wpm: number,
-  settings: TimingSettings
+  settings: TimingSettings,
+  language = '',
+  emphasized = false,
+  next = ''
 ): number {
   const baseInterval = calculateBaseInterval(wpm);
 
   let totalDelay = baseInterval;
 
   // Punctuation delay (always applied, scales with WPM)
-  totalDelay += calculatePunctuationDelay(word, baseInterval);
+  totalDelay += calculatePunctuationDelay(word, baseInterval, settings.punctuationMultipliers, language, next);
 
   // Length delay (if enabled)
   if (settings.lengthDelayEnabled) {
@@ -86,9 +259,64 @@ export function calculateTotalDelay(
     totalDelay += calculateFrequencyDelay(word, baseInterval, settings.frequencyDelayFactor);
   }
 
+  // Emphasis delay (if enabled)
+  if (settings.emphasisDelayEnabled && emphasized) {
+    totalDelay += settings.emphasisDelayFactor * baseInterval;
+  }
+
   return totalDelay;
 }
 
+// Calculate delay for a multi-word chunk: every word keeps its own base,
+// length and frequency time, but only the final word's punctuation pauses.
+// `next` is the word after the chunk.
+export function calculateChunkDelay(
+  words: ProcessedWord[],
+  wpm: number,
+  settings: TimingSettings,
+  language = '',
+  next = ''
+): number {
+  const baseInterval = calculateBaseInterval(wpm);
+
+  return words.reduce((total, word, i) => {
+    if (i < words.length - 1) {
+      const following = words[i + 1].text;
+      return total + calculateTotalDelay(word.text, wpm, settings, language, isEmphasized(word.style), following)
+        - calculatePunctuationDelay(word.text, baseInterval, settings.punctuationMultipliers, language, following);
+    }
+    return total + calculateTotalDelay(word.text, wpm, settings, language, isEmphasized(word.style), next);
+  }, 0);
+}
+
+// Split a long word's delay across its display segments. Each segment gets
+// at least one base interval, time is shared by segment length, and any
+// punctuation pause stays on the final segment.
+export function calculateSegmentDelays(
+  word: string,
+  segments: string[],
+  wpm: number,
+  settings: TimingSettings,
+  language = '',
+  emphasized = false,
+  next = ''
+): number[] {
+  const baseInterval = calculateBaseInterval(wpm);
+  const punctuationDelay = calculatePunctuationDelay(
+    word, baseInterval, settings.punctuationMultipliers, language, next
+  );
+  const readingDelay = Math.max(
+    calculateTotalDelay(word, wpm, settings, language, emphasized, next) - punctuationDelay,
+    segments.length * baseInterval
+  );
+
+  const totalLength = segments.reduce((sum, s) => sum + s.length, 0);
+  return segments.map((segment, i) => {
+    const share = readingDelay * (segment.length / totalLength);
+    return i === segments.length - 1 ? share + punctuationDelay : share;
+  });
+}
+
 // Legacy function for backwards compatibility (used in word-processor.ts)
 export function calculateWordDelay(word: string): number {
   // This returns the old fixed delay - will be removed once engine uses new system
@@ -110,3 +338,31 @@ export const DEFAULT_WPM = 300;
 export const MIN_WPM = 100;
 export const MAX_WPM = 1000;
 export const WPM_STEP = 25;
+
+export const DEFAULT_MAX_WORD_LENGTH = 14;
+export const MIN_MAX_WORD_LENGTH = 8;
+export const MAX_MAX_WORD_LENGTH = 30;
+
+export const DEFAULT_CHUNK_SIZE = 1;
+export const MIN_CHUNK_SIZE = 1;
+export const MAX_CHUNK_SIZE = 4;
+
+// Word font size, in rem
+export const MIN_FONT_SIZE = 1.5;
+export const MAX_FONT_SIZE = 5;
+
+export interface SettingRange {
+  min: number;
+  max: number;
+}
+
+// Ranges the settings sliders offer, also enforced on saved profiles
+export const TIMING_SETTING_RANGES = {
+  lengthDelayFactor: { min: 0, max: 0.5 },
+  frequencyDelayFactor: { min: 0, max: 1 },
+  emphasisDelayFactor: { min: 0, max: 1 },
+  rampUpStartFactor: { min: 0.25, max: 1 },
+  rampUpWords: { min: 5, max: 50 },
+} satisfies Partial<Record<keyof TimingSettings, SettingRange>>;
+
+export const PUNCTUATION_MULTIPLIER_RANGE: SettingRange = { min: 0, max: 3 };
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { processChunk, processText, processWord, segmentWord } from './word-processor';
+
+describe('processChunk', () => {
+  it('joins words with spaces and keeps the focal point off them', () => {
+    const chunk = processChunk(processText('a quick fox', 'en'), 'en');
+    expect(chunk.text).toBe('a quick fox');
+    expect(chunk.text[chunk.orpIndex]).not.toBe(' ');
+  });
+
+  it('joins Chinese and Japanese words without spaces', () => {
+    expect(processChunk(processText('我 喜欢 读书', 'zh'), 'zh').text).toBe('我喜欢读书');
+    expect(processChunk(processText('本 を 読む', 'ja'), 'ja').text).toBe('本を読む');
+  });
+
+  it('places the focal point by the book language', () => {
+    // Five characters: CJK rules centre on the third, where Latin rules would pick the second
+    const chunk = [processWord('abc', 'ja'), processWord('de', 'ja')];
+    expect(processChunk(chunk, 'ja').orpIndex).toBe(2);
+  });
+});
+
+describe('segmentWord', () => {
+  it('places each segment\'s focal point by the book language', () => {
+    const word = processWord('understandingly', 'ja');
+    expect(segmentWord(word, 6, 'ja').map(s => [s.text, s.orpIndex])).toEqual([
+      ['under-', 2],
+      ['stan-', 1],
+      ['dingly', 2],
+    ]);
+    expect(segmentWord(word, 6, 'en')[0].orpIndex).toBe(1);
+  });
+});
@@ -1,36 +1,145 @@
-import type { ProcessedWord, Paragraph } from '../types';
-import { calculateWordDelay } from './timing';
+import type { ProcessedWord, Paragraph, WordStyle } from '../types';
+import { calculateWordDelay, getPunctuationClass } from './timing';
+import { hyphenate } from './hyphenate';
+import { getWordSeparator, tokenize, usesCJKRules } from './language';
+
+// A base character plus any combining marks, so the ORP never separates
+// an accent or vowel sign (Thai, Hebrew points, etc.) from its letter
+const CLUSTER = /\P{M}\p{M}*/gu;
+const PUNCTUATION = /^[\p{P}\p{S}]+$/u;
+
+// Returns the UTF-16 offset of the focal character
+export function calculateORP(word: string, language = ''): number {
+  const clusters = word.match(CLUSTER) ?? [];
 
-export function calculateORP(word: string): number {
   // Strip trailing punctuation for length calculation
-  let len = word.length;
-  while (len > 0 && /[.,!?;:'"—\-]/.test(word[len - 1])) {
+  let len = clusters.length;
+  while (len > 0 && PUNCTUATION.test(clusters[len - 1])) {
     len--;
   }
 
-  if (len <= 1) return 0;
-  if (len <= 3) return 1;
-  return Math.floor(len / 2) - 1;
+  let orp: number;
+  if (usesCJKRules(word, language)) {
+    // CJK words are only a few characters, each carrying a lot of meaning
+    orp = Math.max(0, Math.floor((len - 1) / 2));
+  } else if (len <= 1) {
+    orp = 0;
+  } else if (len <= 3) {
+    orp = 1;
+  } else {
+    orp = Math.floor(len / 2) - 1;
+  }
+
+  return clusters.slice(0, orp).join('').length;
+}
+
+// Split display text around its focal character for rendering
+export function splitAtORP(word: ProcessedWord): { before: string; orp: string; after: string } {
+  const { text, orpIndex } = word;
+  const orp = text.slice(orpIndex).match(/^\P{M}\p{M}*/u)?.[0] ?? '';
+  return {
+    before: text.slice(0, orpIndex),
+    orp,
+    after: text.slice(orpIndex + orp.length),
+  };
 }
 
-export function processWord(text: string): ProcessedWord {
+// Chunks stop growing once their combined text reaches this many characters
+const MAX_CHUNK_LENGTH = 24;
+
+export function processWord(text: string, language = ''): ProcessedWord {
   return {
     text,
-    orpIndex: calculateORP(text),
+    orpIndex: calculateORP(text, language),
     delay: calculateWordDelay(text),
   };
 }
 
-export function processText(text: string): ProcessedWord[] {
-  return text
-    .split(/\s+/)
-    .filter(w => w.length > 0)
-    .map(processWord);
+// Split a word longer than maxLength into hyphenated segments, each flashed
+// separately with its own ORP. Paragraph view and positions still treat the
+// original as one word. maxLength 0 disables splitting.
+export function segmentWord(word: ProcessedWord, maxLength: number, language = ''): ProcessedWord[] {
+  if (maxLength <= 0 || word.text.length <= maxLength) return [word];
+  return hyphenate(word.text, maxLength).map(segment => ({ ...processWord(segment, language), style: word.style }));
+}
+
+function isLongWord(word: ProcessedWord, maxLength: number): boolean {
+  return maxLength > 0 && word.text.length > maxLength;
+}
+
+// A word ending in punctuation closes a chunk so phrases don't run together
+function endsPhrase(text: string, language: string, next: string): boolean {
+  const punctuationClass = getPunctuationClass(text, language, next);
+  return punctuationClass !== null && punctuationClass !== 'hyphen';
+}
+
+// Collect up to maxWords words starting at `start`, stopping at phrase
+// punctuation, the end of the paragraph, or when the chunk gets too long.
+// Words longer than maxWordLength (if set) are always flashed on their own.
+export function buildChunk(
+  words: ProcessedWord[],
+  start: number,
+  maxWords: number,
+  maxWordLength = 0,
+  language = ''
+): ProcessedWord[] {
+  const chunk: ProcessedWord[] = [];
+  let length = 0;
+
+  for (let i = start; i < words.length && chunk.length < maxWords; i++) {
+    const word = words[i];
+    if (isLongWord(word, maxWordLength)) {
+      if (chunk.length === 0) chunk.push(word);
+      break;
+    }
+
+    const nextLength = length + (chunk.length > 0 ? 1 : 0) + word.text.length;
+    if (chunk.length > 0 && nextLength > MAX_CHUNK_LENGTH) break;
+
+    chunk.push(word);
+    length = nextLength;
+    if (endsPhrase(word.text, language, words[i + 1]?.text ?? '')) break;
+  }
+
+  return chunk;
+}
+
+// Formatting every word of a chunk has in common, or undefined if none
+function sharedStyle(chunk: ProcessedWord[]): WordStyle | undefined {
+  const style: WordStyle = {};
+  for (const key of Object.keys(chunk[0].style ?? {}) as (keyof WordStyle)[]) {
+    if (chunk.every(w => w.style?.[key])) style[key] = true;
+  }
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+// Merge a chunk into a single displayable word with one ORP for the phrase.
+// Words are rejoined the way the language writes them (no spaces in
+// Chinese or Japanese).
+export function processChunk(chunk: ProcessedWord[], language = ''): ProcessedWord {
+  if (chunk.length === 1) return chunk[0];
+
+  const text = chunk.map(w => w.text).join(getWordSeparator(language));
+  let orpIndex = calculateORP(text, language);
+  // Don't land the focal point on a space
+  if (text[orpIndex] === ' ') orpIndex++;
+
+  const style = sharedStyle(chunk);
+  return {
+    text,
+    orpIndex,
+    delay: chunk[chunk.length - 1].delay,
+    ...(style && { style }),
+  };
+}
+
+export function processText(text: string, language = ''): ProcessedWord[] {
+  return tokenize(text, language).map(w => processWord(w, language));
 }
 
-export function processParagraph(text: string, sourceElement: string): Paragraph {
+export function processParagraph(text: string, sourceElement: string, language = ''): Paragraph {
   return {
-    words: processText(text),
+    words: processText(text, language),
     sourceElement,
   };
 }
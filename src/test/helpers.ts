@@ -0,0 +1,111 @@
+import JSZip from 'jszip';
+import type { Clock, TimerHandle } from '../rsvp/clock';
+import type { Chapter, ProcessedBook } from '../types';
+import { processParagraph } from '../rsvp/word-processor';
+
+// Clock whose time only moves when a test advances it, firing due timers in
+// deadline order along the way
+export class FakeClock implements Clock {
+  private time = 0;
+  private nextId = 1;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + ms, callback });
+    return id as unknown as TimerHandle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers.delete(handle as unknown as number);
+  }
+
+  advance(ms: number): void {
+    const end = this.time + ms;
+    for (;;) {
+      let due: [number, { at: number; callback: () => void }] | null = null;
+      for (const entry of this.timers) {
+        if (entry[1].at <= end && (!due || entry[1].at < due[1].at)) due = entry;
+      }
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.time = due[1].at;
+      due[1].callback();
+    }
+    this.time = end;
+  }
+
+  pendingTimers(): number {
+    return this.timers.size;
+  }
+}
+
+// A book from plain text: one array of paragraphs per chapter
+export function makeBook(chapters: string[][], language = 'en'): ProcessedBook {
+  return {
+    title: 'Test',
+    author: 'Tester',
+    language,
+    notes: {},
+    chapters: chapters.map((paragraphs, index): Chapter => ({
+      index,
+      title: `Chapter ${index + 1}`,
+      depth: 0,
+      matter: 'body',
+      paragraphs: paragraphs.map(text => processParagraph(text, 'p', language)),
+    })),
+  };
+}
+
+export interface EpubItem {
+  // Path relative to the package document
+  href: string;
+  mediaType: string;
+  content: string | Uint8Array;
+  // Manifest properties, e.g. "nav"
+  properties?: string;
+}
+
+// An XHTML content document around `body`, which may carry attributes
+export function xhtml(body: string, bodyAttributes = ''): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>Test</title></head>
+<body${bodyAttributes ? ` ${bodyAttributes}` : ''}>${body}</body>
+</html>`;
+}
+
+// A small EPUB 3 holding `items`. XHTML items other than the nav document
+// make up the spine, in the order given.
+export async function buildEpub(items: EpubItem[], title = 'Test'): Promise<Uint8Array<ArrayBuffer>> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`);
+
+  const manifest = items.map((item, i) =>
+    `<item id="item${i}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}/>`);
+  const spine = items.flatMap((item, i) =>
+    item.mediaType === 'application/xhtml+xml' && item.properties !== 'nav' ? [`<itemref idref="item${i}"/>`] : []);
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="id">test</dc:identifier>
+    <dc:title>${title}</dc:title>
+    <dc:language>en</dc:language>
+  </metadata>
+  <manifest>${manifest.join('')}</manifest>
+  <spine>${spine.join('')}</spine>
+</package>`);
+
+  for (const item of items) {
+    zip.file(`OEBPS/${item.href}`, item.content);
+  }
+  return new Uint8Array(await zip.generateAsync({ type: 'arraybuffer' }));
+}
@@ -4,42 +4,126 @@ export interface ReadingPosition {
   wordIndex: number;
 }
 
+// Text around a saved position, used to find it again if indices shift.
+// Words are normalized; `offset` is the position's word within them.
+export interface PositionAnchor {
+  chapterTitle: string;
+  words: string[];
+  offset: number;
+}
+
+// Inline formatting carried over from the book's markup
+export interface WordStyle {
+  italic?: boolean;
+  bold?: boolean;
+  smallCaps?: boolean;
+  code?: boolean;
+}
+
 export interface ProcessedWord {
   text: string;
   orpIndex: number;
   delay: number;
+  // Omitted for plain words
+  style?: WordStyle;
+}
+
+// A footnote marker stripped from the text
+export interface NoteRef {
+  // Index of the word the marker followed
+  wordIndex: number;
+  // Key into ProcessedBook.notes
+  noteId: string;
+  label: string;
+}
+
+// An illustration in the reading flow
+export interface ParagraphImage {
+  // Archive path of the image file
+  src: string;
+  alt: string;
+  // Text of the enclosing figure's caption, if any
+  caption: string;
 }
 
 export interface Paragraph {
   words: ProcessedWord[];
   sourceElement: string;
+  notes?: NoteRef[];
+  // Image paragraphs hold a single placeholder word
+  image?: ParagraphImage;
 }
 
+// Where a chapter sits in the book: cover, copyright and contents pages
+// before the text, index and adverts after it
+export type ChapterMatter = 'front' | 'body' | 'back';
+
 export interface Chapter {
   index: number;
   title: string;
+  // Nesting level in the table of contents, 0 for top-level chapters
+  depth: number;
+  matter: ChapterMatter;
   paragraphs: Paragraph[];
 }
 
 export interface ProcessedBook {
   title: string;
   author: string;
+  // BCP 47 tag from dc:language ("" if the book doesn't declare one)
+  language: string;
   chapters: Chapter[];
+  // Footnote/endnote text by note id
+  notes: Record<string, string>;
 }
 
+// File formats the library can import
+export type BookFormat = 'epub' | 'txt' | 'md' | 'html' | 'mobi' | 'azw3' | 'fb2';
+
 export type RSVPStatus = 'idle' | 'loading' | 'ready' | 'playing' | 'paused';
 export type ViewMode = 'rsvp' | 'paragraph';
 
+// How footnotes are handled during RSVP playback. Markers are always kept
+// out of the word stream; paragraph view shows notes as popovers regardless.
+//   skip   - notes aren't shown while reading
+//   pause  - notes near the current word are listed while paused
+//   inline - notes are read after the sentence that references them
+export type NoteMode = 'skip' | 'pause' | 'inline';
+
+// What RSVP playback does on reaching an image paragraph
+//   show - pause with the image displayed
+//   list - flash the placeholder and keep going
+//   skip - pass over it without a flash
+export type ImageMode = 'show' | 'list' | 'skip';
+
 export interface RSVPState {
   status: RSVPStatus;
   position: ReadingPosition;
   wpm: number;
+  chunkSize: number;
+  // Words longer than this are split across flashes (0 = never split)
+  maxWordLength: number;
+  noteMode: NoteMode;
+  imageMode: ImageMode;
+  // Pass over front and back matter chapters during playback
+  skipMatter: boolean;
   book: ProcessedBook | null;
   viewMode: ViewMode;
 }
 
 export interface CurrentWordInfo {
   word: ProcessedWord;
+  // Words flashed together starting at `position` (just `word` unless chunking)
+  chunk: ProcessedWord[];
+  // What to flash: `word` itself, the chunk merged into one display word,
+  // or the current segment of a long word that is split across flashes
+  displayWord: ProcessedWord;
+  segmentIndex: number;
+  segmentCount: number;
+  // displayWord is part of an inline footnote, not the book text
+  isNote: boolean;
+  // Set when the current paragraph is an image
+  image: ParagraphImage | null;
   position: ReadingPosition;
   totalWordsInParagraph: number;
   totalParagraphsInChapter: number;
@@ -1,17 +1,59 @@
-import type { CurrentWordInfo, ProcessedBook, ProcessedWord, ReadingPosition, ViewMode } from '../types';
-import { EPUBLoader } from '../epub/loader';
-import { TextExtractor } from '../epub/extractor';
-import { RSVPEngine } from '../rsvp/engine';
-import { MIN_WPM, MAX_WPM, WPM_STEP, DEFAULT_TIMING_SETTINGS } from '../rsvp/timing';
-import type { TimingSettings } from '../rsvp/timing';
+import type {
+  CurrentWordInfo,
+  ImageMode,
+  NoteMode,
+  ProcessedBook,
+  ProcessedWord,
+  ReadingPosition,
+  ParagraphImage,
+  ViewMode,
+  WordStyle,
+} from '../types';
+import { extractInBackground } from '../epub/background';
+import { RSVPEngine, DEFAULT_IMAGE_MODE } from '../rsvp/engine';
+import {
+  MIN_WPM,
+  MAX_WPM,
+  WPM_STEP,
+  DEFAULT_TIMING_SETTINGS,
+  DEFAULT_PUNCTUATION_MULTIPLIERS,
+  DEFAULT_WPM,
+  DEFAULT_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  DEFAULT_MAX_WORD_LENGTH,
+  MIN_MAX_WORD_LENGTH,
+  MAX_MAX_WORD_LENGTH,
+  MIN_FONT_SIZE,
+  MAX_FONT_SIZE,
+  TIMING_SETTING_RANGES,
+  PUNCTUATION_MULTIPLIER_RANGE,
+} from '../rsvp/timing';
+import type { TimingSettings, PunctuationClass, PunctuationMultipliers } from '../rsvp/timing';
+import { DEFAULT_RESUME_SETTINGS } from '../rsvp/resume';
+import { anchorMatches, clampPosition, createAnchor, resolvePosition } from '../rsvp/anchor';
+import type { ResumeSettings, RewindMode } from '../rsvp/resume';
+import { ReadingTimeIndex, formatTimeEstimate } from '../rsvp/estimate';
+import type { EstimateOptions } from '../rsvp/estimate';
+import { ReadingSessionTracker } from '../rsvp/session';
+import { splitAtORP } from '../rsvp/word-processor';
+import { DEFAULT_NOTE_MODE, getNoteRefsInRange } from '../rsvp/notes';
+import { getTextDirection, getWordDirection, getWordSeparator } from '../rsvp/language';
+import type { TextDirection } from '../rsvp/language';
+import type { ReadingSession } from '../rsvp/session';
 import { Library } from './library';
-import { api, type BookInfo } from '../api/client';
+import {
+  api,
+  type BookInfo,
+  type BookStats,
+  type Position,
+  type ProfileSettings,
+  type TimingProfile,
+} from '../api/client';
 import { loadWordlist } from '../wordlist';
 
 export class App {
   private container: HTMLElement;
-  private loader = new EPUBLoader();
-  private extractor = new TextExtractor();
   private engine = new RSVPEngine();
   private library: Library;
 
@@ -19,6 +61,11 @@ export class App {
   private currentBookHash: string | null = null;
   private isPlaying = false;
   private engineCleanup: (() => void)[] = [];
+  private sessionTracker: ReadingSessionTracker | null = null;
+  private timeIndex: ReadingTimeIndex | null = null;
+  private textDirection: TextDirection = 'ltr';
+  private currentBookProfileId: number | null = null;
+  private profiles: TimingProfile[] = [];
 
   // UI Elements
   private wordDisplay!: HTMLElement;
@@ -42,14 +89,28 @@ export class App {
 
     // Connect engine to timing settings
     this.engine.setTimingSettingsGetter(() => this.getTimingSettings());
+    this.engine.setResumeSettingsGetter(() => this.getResumeSettings());
+    this.engine.setChunkSize(this.getChunkSize());
+    this.engine.setMaxWordLength(this.getSplitLongWords() ? this.getMaxWordLength() : 0);
+    this.engine.setNoteMode(this.getNoteMode());
+    this.engine.setImageMode(this.getImageMode());
+    this.engine.setSkipMatter(this.getSkipMatter());
 
     this.showLibrary();
     this.bindKeyboard();
+
+    // Record the in-progress session if the tab is closed mid-read, and
+    // track a new one if the page comes back from the back/forward cache
+    window.addEventListener('pagehide', () => this.endSession());
+    window.addEventListener('pageshow', (event) => {
+      if (event.persisted && this.currentBookHash) this.startSession(this.currentBookHash);
+    });
   }
 
   private showLibrary(): void {
-    // Save position before leaving reader
+    // Save position and session before leaving reader
     this.savePosition();
+    this.endSession();
     this.cleanupEngineListeners();
     this.currentBookHash = null;
     this.engine.pause();
@@ -60,11 +121,19 @@ export class App {
     this.container.innerHTML = `
       <div class="loading">
         <div class="loading-spinner"></div>
-        <div>Loading book...</div>
+        <div class="loading-status">Loading book...</div>
       </div>
     `;
   }
 
+  // Local extraction reports how many of the book's files are done
+  private updateLoadingProgress(done: number, total: number): void {
+    const status = this.container.querySelector('.loading-status');
+    if (status && total > 0) {
+      status.textContent = `Extracting text... ${Math.round((done / total) * 100)}%`;
+    }
+  }
+
   private showReader(): void {
     const wpm = this.engine.getWPM();
 
@@ -74,6 +143,7 @@ export class App {
           <button class="back-btn">← Library</button>
           <div class="book-title"></div>
           <select class="chapter-select"></select>
+          <button class="stats-btn" title="Reading Stats">📊</button>
           <button class="settings-btn" title="Settings">⚙</button>
         </div>
 
@@ -108,6 +178,7 @@ export class App {
           </div>
           <div class="progress-text">
             <span class="progress-position">Chapter 1</span>
+            <span class="progress-remaining"></span>
             <span class="progress-percent">0%</span>
           </div>
         </div>
@@ -152,6 +223,10 @@ export class App {
     this.container.querySelector('.back-btn')!
       .addEventListener('click', () => this.showLibrary());
 
+    // Stats
+    this.container.querySelector('.stats-btn')!
+      .addEventListener('click', () => this.showStatsModal());
+
     // Settings
     this.container.querySelector('.settings-btn')!
       .addEventListener('click', () => this.showSettingsModal());
@@ -172,6 +247,7 @@ export class App {
       const wpm = parseInt(this.wpmSlider.value);
       this.engine.setWPM(wpm);
       this.wpmValue.textContent = String(wpm);
+      this.refreshTimeEstimates();
     });
 
     // Chapter select
@@ -260,12 +336,17 @@ export class App {
 
   private adjustWPM(delta: number): void {
     const current = this.engine.getWPM();
-    const newWPM = Math.max(MIN_WPM, Math.min(MAX_WPM, current + delta));
+    this.applyWPM(current + delta);
+  }
+
+  private applyWPM(wpm: number): void {
+    const newWPM = Math.max(MIN_WPM, Math.min(MAX_WPM, wpm));
     this.engine.setWPM(newWPM);
     if (this.wpmSlider) {
       this.wpmSlider.value = String(newWPM);
       this.wpmValue.textContent = String(newWPM);
     }
+    this.refreshTimeEstimates();
   }
 
   private setupEngineListeners(): void {
@@ -323,8 +404,11 @@ export class App {
       return;
     }
 
+    this.wordDisplay.classList.toggle('note-word', info.isNote);
     if (this.isPlaying) {
-      this.renderWord(info.word);
+      this.renderWord(info.displayWord);
+    } else if (info.image) {
+      this.renderImage(info.image);
     } else {
       this.renderSentenceContext(info);
     }
@@ -337,11 +421,10 @@ export class App {
   }
 
   private renderWord(word: ProcessedWord): void {
-    const { text, orpIndex } = word;
-    const before = text.slice(0, orpIndex);
-    const orp = text[orpIndex] || '';
-    const after = text.slice(orpIndex + 1);
+    const { before, orp, after } = splitAtORP(word);
 
+    this.wordDisplay.dir = getWordDirection(word.text, this.textDirection);
+    this.setStyleClasses(this.wordDisplay, word.style);
     this.wordDisplay.innerHTML = `
       <span class="word-before">${this.escapeHtml(before)}</span>
       <span class="word-orp">${this.escapeHtml(orp)}</span>
@@ -354,6 +437,30 @@ export class App {
     if (contextEl) contextEl.remove();
   }
 
+  // Paused on an image paragraph: show the picture, captioned below
+  private renderImage(image: ParagraphImage): void {
+    this.wordDisplay.dir = this.textDirection;
+    this.setStyleClasses(this.wordDisplay, undefined);
+    this.wordDisplay.innerHTML = `
+      <img class="rsvp-image" src="${this.escapeHtml(this.getImageUrl(image))}" alt="${this.escapeHtml(image.alt)}">
+    `;
+
+    const wordDisplayWrapper = this.container.querySelector('.word-display') as HTMLElement;
+    if (!wordDisplayWrapper) return;
+    let contextEl = wordDisplayWrapper.querySelector('.sentence-context') as HTMLElement;
+    if (!contextEl) {
+      contextEl = document.createElement('div');
+      contextEl.className = 'sentence-context';
+      wordDisplayWrapper.appendChild(contextEl);
+    }
+    contextEl.dir = this.textDirection;
+    contextEl.textContent = image.caption || image.alt;
+  }
+
+  private getImageUrl(image: ParagraphImage): string {
+    return this.currentBookHash ? api.getBookImageUrl(this.currentBookHash, image.src) : '';
+  }
+
   private renderSentenceContext(info: CurrentWordInfo): void {
     const book = this.engine.getBook();
     if (!book) return;
@@ -366,34 +473,34 @@ export class App {
 
     const words = paragraph.words;
     const currentIdx = info.position.wordIndex;
+    const chunkEndIdx = currentIdx + info.chunk.length - 1;
 
     // Show limited context: up to 5 words before and after
     const contextSize = 5;
     const startIdx = Math.max(0, currentIdx - contextSize);
-    const endIdx = Math.min(words.length - 1, currentIdx + contextSize);
+    const endIdx = Math.min(words.length - 1, chunkEndIdx + contextSize);
 
     // Build the current word with ORP highlighting (same as playing mode)
-    const currentWord = words[currentIdx];
-    const { text, orpIndex } = currentWord;
-    const wordBefore = text.slice(0, orpIndex);
-    const orp = text[orpIndex] || '';
-    const wordAfter = text.slice(orpIndex + 1);
+    const { before: wordBefore, orp, after: wordAfter } = splitAtORP(info.displayWord);
+    const separator = getWordSeparator(book.language);
 
     // Build context sentence for display below
     const contextParts: string[] = [];
     for (let i = startIdx; i <= endIdx; i++) {
-      if (i === currentIdx) {
-        contextParts.push(`<span class="context-current">${this.escapeHtml(words[i].text)}</span>`);
-      } else {
-        contextParts.push(this.escapeHtml(words[i].text));
-      }
+      const classes = this.styleClasses(words[i].style);
+      if (i >= currentIdx && i <= chunkEndIdx) classes.push('context-current');
+      contextParts.push(classes.length > 0
+        ? `<span class="${classes.join(' ')}">${this.escapeHtml(words[i].text)}</span>`
+        : this.escapeHtml(words[i].text));
     }
 
-    const beforeEllipsis = startIdx > 0 ? '… ' : '';
-    const afterEllipsis = endIdx < words.length - 1 ? ' …' : '';
-    const contextHtml = beforeEllipsis + contextParts.join(' ') + afterEllipsis;
+    const beforeEllipsis = startIdx > 0 ? `…${separator}` : '';
+    const afterEllipsis = endIdx < words.length - 1 ? `${separator}…` : '';
+    const contextHtml = beforeEllipsis + contextParts.join(separator) + afterEllipsis;
 
     // Render: main word centered (unchanged), context below
+    this.wordDisplay.dir = getWordDirection(info.displayWord.text, this.textDirection);
+    this.setStyleClasses(this.wordDisplay, info.displayWord.style);
     this.wordDisplay.innerHTML = `
       <span class="word-before">${this.escapeHtml(wordBefore)}</span>
       <span class="word-orp">${this.escapeHtml(orp)}</span>
@@ -409,7 +516,36 @@ export class App {
       contextEl.className = 'sentence-context';
       wordDisplayWrapper.appendChild(contextEl);
     }
+    contextEl.dir = this.textDirection;
     contextEl.innerHTML = contextHtml;
+
+    // In pause mode, notes referenced near the current word are listed below
+    const refs = this.engine.getNoteMode() === 'pause' ? getNoteRefsInRange(paragraph, startIdx, endIdx) : [];
+    if (refs.length > 0) {
+      contextEl.innerHTML += `<div class="context-notes">${refs.map(ref => `
+        <div class="context-note"><span class="note-label">${this.escapeHtml(ref.label)}</span> ${this.escapeHtml(book.notes[ref.noteId] ?? '')}</div>
+      `).join('')}</div>`;
+    }
+  }
+
+  private readonly STYLE_CLASSES: [keyof WordStyle, string][] = [
+    ['italic', 'style-italic'],
+    ['bold', 'style-bold'],
+    ['smallCaps', 'style-small-caps'],
+    ['code', 'style-code'],
+  ];
+
+  // CSS classes for a word's inline formatting
+  private styleClasses(style: WordStyle | undefined): string[] {
+    if (!style) return [];
+    return this.STYLE_CLASSES.filter(([key]) => style[key]).map(([, className]) => className);
+  }
+
+  private setStyleClasses(el: HTMLElement, style: WordStyle | undefined): void {
+    const active = this.styleClasses(style);
+    for (const [, className] of this.STYLE_CLASSES) {
+      el.classList.toggle(className, active.includes(className));
+    }
   }
 
   private escapeHtml(text: string): string {
@@ -425,29 +561,21 @@ export class App {
     const book = this.engine.getBook();
     if (!book) return;
 
-    // Calculate total words and current position
-    let totalWords = 0;
-    let currentWordIndex = 0;
-
-    for (let c = 0; c < book.chapters.length; c++) {
-      const chapter = book.chapters[c];
-      for (let p = 0; p < chapter.paragraphs.length; p++) {
-        const para = chapter.paragraphs[p];
-        if (c < info.position.chapterIndex ||
-            (c === info.position.chapterIndex && p < info.position.paragraphIndex) ||
-            (c === info.position.chapterIndex && p === info.position.paragraphIndex)) {
-          if (c === info.position.chapterIndex && p === info.position.paragraphIndex) {
-            currentWordIndex = totalWords + info.position.wordIndex;
-          }
-        }
-        totalWords += para.words.length;
-      }
-    }
-
-    const percent = totalWords > 0 ? (currentWordIndex / totalWords) * 100 : 0;
+    const percent = this.timeIndex && this.timeIndex.getTotalWords() > 0
+      ? (this.timeIndex.getWordOffset(info.position) / this.timeIndex.getTotalWords()) * 100
+      : 0;
     this.progressBar.style.width = `${percent}%`;
     this.progressText.textContent = `${info.chapterTitle} - Word ${info.position.wordIndex + 1}/${info.totalWordsInParagraph}`;
 
+    const remainingText = this.container.querySelector('.progress-remaining');
+    if (remainingText && this.timeIndex) {
+      const remaining = this.timeIndex.getRemaining(
+        info.position, this.engine.getWPM(), this.getTimingSettings(), this.getEstimateOptions()
+      );
+      remainingText.textContent =
+        `~${formatTimeEstimate(remaining.chapterMs)} left in chapter · ~${formatTimeEstimate(remaining.bookMs)} left in book`;
+    }
+
     const percentText = this.container.querySelector('.progress-percent');
     if (percentText) {
       percentText.textContent = `${Math.round(percent)}%`;
@@ -493,7 +621,11 @@ export class App {
       // Update word display to show current position
       const info = this.engine.getCurrentWordInfo();
       if (info) {
-        this.renderSentenceContext(info);
+        if (info.image) {
+          this.renderImage(info.image);
+        } else {
+          this.renderSentenceContext(info);
+        }
         this.updateProgress(info);
       }
     }
@@ -508,18 +640,34 @@ export class App {
     if (!chapter) return;
 
     // Build paragraph HTML with clickable words
-    let html = `<div class="paragraph-view-content">`;
+    const separator = getWordSeparator(book.language);
+    let html = `<div class="paragraph-view-content" dir="${this.textDirection}">`;
 
     chapter.paragraphs.forEach((para, pIdx) => {
       const isCurrent = pIdx === position.paragraphIndex;
       const paraClass = isCurrent ? 'paragraph current' : 'paragraph';
 
-      html += `<p class="${paraClass}" data-para="${pIdx}">`;
+      if (para.image) {
+        const imageClass = isCurrent ? 'word current-word' : 'word';
+        html += `<figure class="${paraClass} source-img" data-para="${pIdx}">`
+          + `<img class="${imageClass}" data-para="${pIdx}" data-word="0"`
+          + ` src="${this.escapeHtml(this.getImageUrl(para.image))}" alt="${this.escapeHtml(para.image.alt)}">`
+          + `</figure>`;
+        return;
+      }
+
+      html += `<p class="${paraClass} source-${para.sourceElement}" data-para="${pIdx}">`;
 
       para.words.forEach((word, wIdx) => {
         const isCurrentWord = isCurrent && wIdx === position.wordIndex;
-        const wordClass = isCurrentWord ? 'word current-word' : 'word';
-        html += `<span class="${wordClass}" data-para="${pIdx}" data-word="${wIdx}">${this.escapeHtml(word.text)}</span> `;
+        const wordClass = ['word', ...(isCurrentWord ? ['current-word'] : []), ...this.styleClasses(word.style)].join(' ');
+        html += `<span class="${wordClass}" data-para="${pIdx}" data-word="${wIdx}">${this.escapeHtml(word.text)}</span>`;
+        for (const ref of para.notes ?? []) {
+          if (ref.wordIndex === wIdx) {
+            html += `<sup class="note-ref" data-note-id="${this.escapeHtml(ref.noteId)}">${this.escapeHtml(ref.label)}</sup>`;
+          }
+        }
+        html += separator;
       });
 
       html += `</p>`;
@@ -549,6 +697,20 @@ export class App {
       });
     });
 
+    // Footnote markers toggle a popover with the note text
+    this.paragraphView.querySelectorAll<HTMLElement>('.note-ref').forEach((el) => {
+      el.addEventListener('click', () => {
+        const open = el.querySelector('.note-popover');
+        this.paragraphView.querySelectorAll('.note-popover').forEach(popover => popover.remove());
+        if (open) return;
+
+        const popover = document.createElement('span');
+        popover.className = 'note-popover';
+        popover.textContent = book.notes[el.dataset.noteId || ''] ?? '';
+        el.appendChild(popover);
+      });
+    });
+
     // Scroll current paragraph into view
     const currentPara = this.paragraphView.querySelector('.paragraph.current');
     if (currentPara) {
@@ -565,103 +727,206 @@ export class App {
       titleEl.textContent = `${book.title} by ${book.author}`;
     }
 
-    // Populate chapter select
+    this.renderChapterOptions();
+  }
+
+  private renderChapterOptions(): void {
+    const book = this.engine.getBook();
+    if (!book || !this.chapterSelect) return;
+
+    const wpm = this.engine.getWPM();
+    const settings = this.getTimingSettings();
+    const options = this.getEstimateOptions();
+    const selected = this.chapterSelect.value;
+
+    // Populate chapter select with each chapter's reading time
     this.chapterSelect.innerHTML = book.chapters
-      .map((ch, i) => `<option value="${i}">${ch.title}</option>`)
+      .map((ch, i) => {
+        const time = this.timeIndex
+          ? ` (${formatTimeEstimate(this.timeIndex.getChapterMs(i, wpm, settings, options))})`
+          : '';
+        // Options can't be styled reliably, so indent nested sections with
+        // spaces and label front/back matter in the text
+        const indent = '&nbsp;&nbsp;&nbsp;'.repeat(ch.depth);
+        const matter = ch.matter === 'body' ? '' : ` [${ch.matter === 'front' ? 'front matter' : 'back matter'}]`;
+        return `<option value="${i}">${indent}${this.escapeHtml(ch.title)}${matter}${time}</option>`;
+      })
       .join('');
+
+    if (selected) this.chapterSelect.value = selected;
+  }
+
+  // Estimates depend on how words are chunked, so rebuild after that changes
+  private rebuildTimeIndex(): void {
+    const book = this.engine.getBook();
+    if (!book) return;
+    this.timeIndex = new ReadingTimeIndex(book, this.engine.getChunkSize(), this.engine.getMaxWordLength());
+    this.refreshTimeEstimates();
+  }
+
+  // Estimates follow the engine in what it reads and skips
+  private getEstimateOptions(): EstimateOptions {
+    return {
+      imageMode: this.engine.getImageMode(),
+      noteMode: this.engine.getNoteMode(),
+      skipMatter: this.engine.getSkipMatter(),
+    };
+  }
+
+  // Re-price time estimates after WPM, timing settings or playback modes change
+  private refreshTimeEstimates(): void {
+    this.renderChapterOptions();
+    const info = this.engine.getCurrentWordInfo();
+    if (info) this.updateProgress(info);
+  }
+
+  // Prefer the server's cached extraction; fall back to extracting locally
+  // in a worker, which hands over the chapters finished so far as it goes
+  private async loadBookContent(
+    bookInfo: BookInfo,
+    onPartial: (partial: ProcessedBook) => void
+  ): Promise<ProcessedBook> {
+    const { hash, format, filename } = bookInfo;
+    try {
+      return await api.getBookContent(hash);
+    } catch (err) {
+      console.warn('Server-side content unavailable, extracting locally:', err);
+    }
+
+    const data = await api.getBookFile(hash);
+    return extractInBackground({ data, format, filename }, (progress, partial) => {
+      this.updateLoadingProgress(progress.done, progress.total);
+      onPartial(partial);
+    });
   }
 
   private async openBook(bookInfo: BookInfo): Promise<void> {
     this.showLoading();
 
-    try {
-      // Fetch the EPUB file from API
-      const arrayBuffer = await api.getBookFile(bookInfo.hash);
+    // While extracting locally, start reading as soon as the saved position's
+    // chapter is ready and swap in the rest of the book once it's done
+    let earlyStart = null as Promise<void> | null;
+    const onPartial = (partial: ProcessedBook) => {
+      if (!earlyStart && bookInfo.position && this.isPositionReady(partial, bookInfo.position)) {
+        earlyStart = this.startReading(bookInfo, partial);
+      }
+    };
 
-      // Load and process the EPUB
-      const epubBook = await this.loader.loadFromArrayBuffer(arrayBuffer);
-      const processedBook = await this.extractor.extractBook(epubBook);
+    try {
+      const processedBook = await this.loadBookContent(bookInfo, onPartial);
 
       if (processedBook.chapters.length === 0) {
-        throw new Error('No readable content found in this EPUB');
+        throw new Error('No readable content found in this book');
       }
 
-      // Update metadata in database if we extracted better info
-      if (processedBook.title !== 'Untitled' || processedBook.author !== 'Unknown') {
-        api.updateBookMetadata(bookInfo.hash, processedBook.title, processedBook.author).catch(() => {
+      // Fill in metadata the library is missing, leaving any title or
+      // author it already has (possibly edited by hand) alone
+      const title = !bookInfo.title && processedBook.title !== 'Untitled' ? processedBook.title : null;
+      const author = !bookInfo.author && processedBook.author !== 'Unknown' ? processedBook.author : null;
+      if (title || author) {
+        api.updateBookMetadata(bookInfo.hash, title, author).catch(() => {
           // Ignore errors updating metadata
         });
       }
 
-      // Load book into engine (sets position to 0,0,0)
-      this.engine.loadBook(processedBook);
-      this.currentBookHash = bookInfo.hash;
-
-      // Show reader FIRST so listeners are set up
-      this.showReader();
-
-      // NOW restore position - this will trigger UI update via listeners
-      if (bookInfo.position) {
-        this.engine.setWPM(bookInfo.position.wpm);
-        this.wpmSlider.value = String(bookInfo.position.wpm);
-        this.wpmValue.textContent = String(bookInfo.position.wpm);
-
-        // Validate and clamp position to book bounds
-        const savedPos = bookInfo.position;
-        const clampedPos = this.clampPosition(processedBook, savedPos);
-
-        const positionWasClamped =
-          clampedPos.chapterIndex !== savedPos.chapterIndex ||
-          clampedPos.paragraphIndex !== savedPos.paragraphIndex ||
-          clampedPos.wordIndex !== savedPos.wordIndex;
-
-        if (positionWasClamped) {
-          console.warn('Saved position was out of bounds:', savedPos);
-          console.warn('Book has', processedBook.chapters.length, 'chapters');
-          console.warn('Clamped to:', clampedPos);
-
-          // Show user a notification
-          setTimeout(() => {
-            alert(`Your saved position (Chapter ${savedPos.chapterIndex + 1}) was out of bounds.\n\nThe book only has ${processedBook.chapters.length} chapters. Restored to Chapter ${clampedPos.chapterIndex + 1} instead.\n\nThis can happen if the book's structure changed.`);
-          }, 100);
-        }
-
-        this.engine.setPosition(clampedPos);
+      if (earlyStart) {
+        await earlyStart;
+        // Unless the reader has already gone back to the library
+        if (this.currentBookHash === bookInfo.hash) this.replaceBook(processedBook);
       } else {
-        // No saved position - still show the first word
-        this.updateWordDisplay(this.engine.getCurrentWordInfo());
+        await this.startReading(bookInfo, processedBook);
       }
     } catch (err) {
-      console.error('Failed to load EPUB:', err);
-      alert(`Failed to load EPUB: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error('Failed to load book:', err);
+      alert(`Failed to load book: ${err instanceof Error ? err.message : 'Unknown error'}`);
       this.showLibrary();
     }
   }
 
-  private clampPosition(
-    book: ProcessedBook,
-    pos: { chapterIndex: number; paragraphIndex: number; wordIndex: number }
-  ): ReadingPosition {
-    // Clamp chapter
-    let chapterIndex = Math.max(0, Math.min(pos.chapterIndex, book.chapters.length - 1));
-    let chapter = book.chapters[chapterIndex];
+  private async startReading(bookInfo: BookInfo, processedBook: ProcessedBook): Promise<void> {
+    // Frequency delays feed into time estimates, so the wordlist must be ready
+    await loadWordlist();
+    this.timeIndex = new ReadingTimeIndex(processedBook, this.engine.getChunkSize(), this.engine.getMaxWordLength());
+    this.textDirection = getTextDirection(processedBook.language);
+
+    // Load book into engine (sets position to 0,0,0)
+    this.engine.loadBook(processedBook);
+    this.currentBookHash = bookInfo.hash;
+    this.currentBookProfileId = bookInfo.profile_id ?? null;
+    this.startSession(bookInfo.hash);
+
+    // Show reader FIRST so listeners are set up
+    this.showReader();
+
+    // Apply the book's default profile (the saved WPM below still wins)
+    if (this.currentBookProfileId !== null) {
+      await this.loadProfiles();
+      const profile = this.profiles.find(p => p.id === this.currentBookProfileId);
+      if (profile) this.applyProfile(profile);
+    }
+
+    // NOW restore position - this will trigger UI update via listeners
+    if (bookInfo.position) {
+      this.applyWPM(bookInfo.position.wpm);
 
-    // If chapter has no paragraphs, find one that does
-    while (chapter.paragraphs.length === 0 && chapterIndex > 0) {
-      chapterIndex--;
-      chapter = book.chapters[chapterIndex];
+      this.engine.setPosition(this.resolveSavedPosition(processedBook, bookInfo.position));
+    } else {
+      // No saved position - start at the text, past any front matter
+      const bodyStart = processedBook.chapters.findIndex(ch => ch.matter === 'body');
+      if (bodyStart > 0) {
+        this.engine.setPosition({ chapterIndex: bodyStart, paragraphIndex: 0, wordIndex: 0 });
+      } else {
+        this.updateWordDisplay(this.engine.getCurrentWordInfo());
+      }
     }
+  }
 
-    // Clamp paragraph
-    const paragraphIndex = Math.max(0, Math.min(pos.paragraphIndex, Math.max(0, chapter.paragraphs.length - 1)));
-    const paragraph = chapter.paragraphs[paragraphIndex];
+  // A partial book can be opened once it holds the saved position as saved;
+  // anything that needs relocating or clamping waits for the whole book
+  private isPositionReady(book: ProcessedBook, savedPos: Position): boolean {
+    if (!book.chapters[savedPos.chapterIndex]) return false;
+    if (savedPos.anchor) return anchorMatches(book, savedPos, savedPos.anchor);
 
-    // Clamp word (handle empty paragraph edge case)
-    const wordIndex = paragraph
-      ? Math.max(0, Math.min(pos.wordIndex, Math.max(0, paragraph.words.length - 1)))
-      : 0;
+    const clampedPos = clampPosition(book, savedPos);
+    return clampedPos.chapterIndex === savedPos.chapterIndex &&
+      clampedPos.paragraphIndex === savedPos.paragraphIndex &&
+      clampedPos.wordIndex === savedPos.wordIndex;
+  }
 
-    return { chapterIndex, paragraphIndex, wordIndex };
+  // Swap the partial book for the finished extraction without interrupting
+  // reading; chapters are only added, so the position still holds
+  private replaceBook(book: ProcessedBook): void {
+    this.engine.replaceBook(book);
+    this.rebuildTimeIndex();
+  }
+
+  private resolveSavedPosition(book: ProcessedBook, savedPos: Position): ReadingPosition {
+    const { position, relocated } = resolvePosition(book, savedPos, savedPos.anchor);
+
+    if (relocated) {
+      console.warn('Saved position moved; relocated by its anchor:', savedPos, '->', position);
+      return position;
+    }
+
+    // Otherwise it's the saved position, clamped to the book's bounds
+    const clampedPos = position;
+    const positionWasClamped =
+      clampedPos.chapterIndex !== savedPos.chapterIndex ||
+      clampedPos.paragraphIndex !== savedPos.paragraphIndex ||
+      clampedPos.wordIndex !== savedPos.wordIndex;
+
+    if (positionWasClamped) {
+      console.warn('Saved position was out of bounds:', savedPos);
+      console.warn('Book has', book.chapters.length, 'chapters');
+      console.warn('Clamped to:', clampedPos);
+
+      // Show user a notification
+      setTimeout(() => {
+        alert(`Your saved position (Chapter ${savedPos.chapterIndex + 1}) was out of bounds.\n\nThe book only has ${book.chapters.length} chapters. Restored to Chapter ${clampedPos.chapterIndex + 1} instead.\n\nThis can happen if the book's structure changed.`);
+      }, 100);
+    }
+
+    return clampedPos;
   }
 
   private async savePosition(): Promise<void> {
@@ -671,14 +936,122 @@ export class App {
     const wpm = this.engine.getWPM();
     const book = this.engine.getBook();
     const chapterTitle = book?.chapters[position.chapterIndex]?.title;
+    const anchor = book ? createAnchor(book, position) ?? undefined : undefined;
 
     try {
-      await api.savePosition(this.currentBookHash, position, wpm, chapterTitle);
+      await api.savePosition(this.currentBookHash, position, wpm, chapterTitle, anchor);
     } catch (err) {
       console.error('Failed to save position:', err);
     }
   }
 
+  // Reading sessions
+  private startSession(hash: string): void {
+    this.endSession();
+    this.sessionTracker = new ReadingSessionTracker(this.engine, (session) => {
+      api.saveSession(hash, session.sessionStart, session.sessionEnd, session.wordsRead, session.avgWpm ?? undefined)
+        .catch((err) => console.error('Failed to save session:', err));
+    });
+    this.sessionTracker.start();
+  }
+
+  private endSession(): void {
+    this.sessionTracker?.stop();
+    this.sessionTracker = null;
+  }
+
+  private async showStatsModal(): Promise<void> {
+    if (!this.currentBookHash) return;
+
+    const modal = document.createElement('div');
+    modal.className = 'settings-modal-overlay';
+    modal.innerHTML = `
+      <div class="settings-modal stats-modal">
+        <div class="settings-header">
+          <h2>Reading Stats</h2>
+          <button class="settings-close">×</button>
+        </div>
+        <div class="settings-content">
+          <div class="stats-loading">Loading stats...</div>
+        </div>
+      </div>
+    `;
+
+    const close = () => modal.remove();
+    modal.querySelector('.settings-close')!.addEventListener('click', close);
+    modal.addEventListener('click', (e) => {
+      if (e.target === modal) close();
+    });
+    document.body.appendChild(modal);
+
+    const content = modal.querySelector('.settings-content')!;
+    try {
+      const stats = await api.getStats(this.currentBookHash);
+      content.innerHTML = this.renderStats(stats, this.sessionTracker?.getCurrent() ?? null);
+    } catch (err) {
+      console.error('Failed to load stats:', err);
+      content.innerHTML = '<div class="stats-error">Failed to load stats</div>';
+    }
+  }
+
+  private renderStats(stats: BookStats, current: ReadingSession | null): string {
+    const { aggregate, sessions } = stats;
+    const avgWpm = aggregate.overallAvgWpm !== null ? String(Math.round(aggregate.overallAvgWpm)) : '—';
+
+    const currentHtml = current
+      ? `
+        <div class="stats-current">
+          This session: ${formatTimeEstimate(current.sessionEnd - current.sessionStart)},
+          ${current.wordsRead.toLocaleString()} words${current.avgWpm ? `, ${current.avgWpm} WPM` : ''}
+        </div>
+      `
+      : '';
+
+    const sessionsHtml = sessions.length === 0
+      ? '<div class="stats-empty">No reading sessions recorded yet.</div>'
+      : `
+        <table class="stats-sessions">
+          <thead>
+            <tr><th>Date</th><th>Time</th><th>Words</th><th>WPM</th></tr>
+          </thead>
+          <tbody>
+            ${sessions.map((s) => `
+              <tr>
+                <td>${new Date(s.sessionStart).toLocaleString()}</td>
+                <td>${formatTimeEstimate(s.durationMs)}</td>
+                <td>${s.wordsRead.toLocaleString()}</td>
+                <td>${s.avgWpm !== null ? Math.round(s.avgWpm) : '—'}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      `;
+
+    return `
+      <div class="stats-summary">
+        <div class="stats-item">
+          <span class="stats-value">${formatTimeEstimate(aggregate.totalTimeMs)}</span>
+          <span class="stats-label">Total time</span>
+        </div>
+        <div class="stats-item">
+          <span class="stats-value">${aggregate.totalWordsRead.toLocaleString()}</span>
+          <span class="stats-label">Words read</span>
+        </div>
+        <div class="stats-item">
+          <span class="stats-value">${avgWpm}</span>
+          <span class="stats-label">Avg WPM</span>
+        </div>
+        <div class="stats-item">
+          <span class="stats-value">${aggregate.totalSessions}</span>
+          <span class="stats-label">Sessions</span>
+        </div>
+      </div>
+      ${currentHtml}
+      <div class="setting-divider"></div>
+      ${sessionsHtml}
+    `;
+  }
+
   // Font size settings
   private readonly FONT_SIZE_KEY = 'rsvp-font-size';
   private readonly DEFAULT_FONT_SIZE = 3;
@@ -689,7 +1062,7 @@ export class App {
   }
 
   private setFontSize(size: number): void {
-    const clamped = Math.max(1.5, Math.min(5, size));
+    const clamped = Math.max(MIN_FONT_SIZE, Math.min(MAX_FONT_SIZE, size));
     localStorage.setItem(this.FONT_SIZE_KEY, String(clamped));
     document.documentElement.style.setProperty('--font-size-word', `${clamped}rem`);
   }
@@ -699,33 +1072,218 @@ export class App {
     document.documentElement.style.setProperty('--font-size-word', `${size}rem`);
   }
 
+  // Chunk settings
+  private readonly CHUNK_SIZE_KEY = 'rsvp-chunk-size';
+
+  private getChunkSize(): number {
+    const stored = localStorage.getItem(this.CHUNK_SIZE_KEY);
+    return stored ? parseInt(stored) : DEFAULT_CHUNK_SIZE;
+  }
+
+  private setChunkSize(size: number): void {
+    localStorage.setItem(this.CHUNK_SIZE_KEY, String(size));
+    this.engine.setChunkSize(size);
+    this.rebuildTimeIndex();
+  }
+
+  // Long word splitting
+  private readonly SPLIT_LONG_WORDS_KEY = 'rsvp-split-long-words';
+  private readonly MAX_WORD_LENGTH_KEY = 'rsvp-max-word-length';
+
+  private getSplitLongWords(): boolean {
+    return localStorage.getItem(this.SPLIT_LONG_WORDS_KEY) === 'true';
+  }
+
+  private getMaxWordLength(): number {
+    const stored = localStorage.getItem(this.MAX_WORD_LENGTH_KEY);
+    return stored ? parseInt(stored) : DEFAULT_MAX_WORD_LENGTH;
+  }
+
+  private setLongWordSplitting(enabled: boolean, maxLength: number): void {
+    localStorage.setItem(this.SPLIT_LONG_WORDS_KEY, String(enabled));
+    localStorage.setItem(this.MAX_WORD_LENGTH_KEY, String(maxLength));
+    this.engine.setMaxWordLength(enabled ? maxLength : 0);
+    this.rebuildTimeIndex();
+  }
+
+  // Footnotes
+  private readonly NOTE_MODE_KEY = 'rsvp-note-mode';
+
+  private getNoteMode(): NoteMode {
+    const stored = localStorage.getItem(this.NOTE_MODE_KEY);
+    return stored === 'skip' || stored === 'pause' || stored === 'inline' ? stored : DEFAULT_NOTE_MODE;
+  }
+
+  private setNoteMode(mode: NoteMode): void {
+    localStorage.setItem(this.NOTE_MODE_KEY, mode);
+    this.engine.setNoteMode(mode);
+  }
+
+  // Images
+  private readonly IMAGE_MODE_KEY = 'rsvp-image-mode';
+
+  private getImageMode(): ImageMode {
+    const stored = localStorage.getItem(this.IMAGE_MODE_KEY);
+    return stored === 'show' || stored === 'list' || stored === 'skip' ? stored : DEFAULT_IMAGE_MODE;
+  }
+
+  private setImageMode(mode: ImageMode): void {
+    localStorage.setItem(this.IMAGE_MODE_KEY, mode);
+    this.engine.setImageMode(mode);
+  }
+
+  // Front and back matter
+  private readonly SKIP_MATTER_KEY = 'rsvp-skip-matter';
+
+  private getSkipMatter(): boolean {
+    return localStorage.getItem(this.SKIP_MATTER_KEY) === 'true';
+  }
+
+  private setSkipMatter(skip: boolean): void {
+    localStorage.setItem(this.SKIP_MATTER_KEY, String(skip));
+    this.engine.setSkipMatter(skip);
+  }
+
   // Timing settings
   private readonly LENGTH_DELAY_ENABLED_KEY = 'rsvp-length-delay-enabled';
   private readonly LENGTH_DELAY_FACTOR_KEY = 'rsvp-length-delay-factor';
   private readonly FREQUENCY_DELAY_ENABLED_KEY = 'rsvp-frequency-delay-enabled';
   private readonly FREQUENCY_DELAY_FACTOR_KEY = 'rsvp-frequency-delay-factor';
+  private readonly EMPHASIS_DELAY_ENABLED_KEY = 'rsvp-emphasis-delay-enabled';
+  private readonly EMPHASIS_DELAY_FACTOR_KEY = 'rsvp-emphasis-delay-factor';
+  private readonly RAMP_UP_ENABLED_KEY = 'rsvp-ramp-up-enabled';
+  private readonly RAMP_UP_START_FACTOR_KEY = 'rsvp-ramp-up-start-factor';
+  private readonly RAMP_UP_WORDS_KEY = 'rsvp-ramp-up-words';
+  private readonly PUNCTUATION_MULTIPLIERS_KEY = 'rsvp-punctuation-multipliers';
+  private readonly PUNCTUATION_LABELS: [PunctuationClass, string][] = [
+    ['sentence', '. ! ?'],
+    ['clause', ', ; :'],
+    ['ellipsis', '…'],
+    ['dash', '—'],
+    ['hyphen', '-'],
+  ];
 
   private getTimingSettings(): TimingSettings {
     const lengthEnabled = localStorage.getItem(this.LENGTH_DELAY_ENABLED_KEY);
     const lengthFactor = localStorage.getItem(this.LENGTH_DELAY_FACTOR_KEY);
     const freqEnabled = localStorage.getItem(this.FREQUENCY_DELAY_ENABLED_KEY);
     const freqFactor = localStorage.getItem(this.FREQUENCY_DELAY_FACTOR_KEY);
+    const emphasisEnabled = localStorage.getItem(this.EMPHASIS_DELAY_ENABLED_KEY);
+    const emphasisFactor = localStorage.getItem(this.EMPHASIS_DELAY_FACTOR_KEY);
+    const rampEnabled = localStorage.getItem(this.RAMP_UP_ENABLED_KEY);
+    const rampStartFactor = localStorage.getItem(this.RAMP_UP_START_FACTOR_KEY);
+    const rampWords = localStorage.getItem(this.RAMP_UP_WORDS_KEY);
 
     return {
       lengthDelayEnabled: lengthEnabled === 'true',
       lengthDelayFactor: lengthFactor ? parseFloat(lengthFactor) : DEFAULT_TIMING_SETTINGS.lengthDelayFactor,
       frequencyDelayEnabled: freqEnabled === 'true',
       frequencyDelayFactor: freqFactor ? parseFloat(freqFactor) : DEFAULT_TIMING_SETTINGS.frequencyDelayFactor,
+      emphasisDelayEnabled: emphasisEnabled === 'true',
+      emphasisDelayFactor: emphasisFactor ? parseFloat(emphasisFactor) : DEFAULT_TIMING_SETTINGS.emphasisDelayFactor,
+      rampUpEnabled: rampEnabled === 'true',
+      rampUpStartFactor: rampStartFactor ? parseFloat(rampStartFactor) : DEFAULT_TIMING_SETTINGS.rampUpStartFactor,
+      rampUpWords: rampWords ? parseInt(rampWords) : DEFAULT_TIMING_SETTINGS.rampUpWords,
+      punctuationMultipliers: this.getPunctuationMultipliers(),
     };
   }
 
+  private getPunctuationMultipliers(): PunctuationMultipliers {
+    const stored = localStorage.getItem(this.PUNCTUATION_MULTIPLIERS_KEY);
+    if (!stored) return { ...DEFAULT_PUNCTUATION_MULTIPLIERS };
+    try {
+      return { ...DEFAULT_PUNCTUATION_MULTIPLIERS, ...JSON.parse(stored) };
+    } catch {
+      return { ...DEFAULT_PUNCTUATION_MULTIPLIERS };
+    }
+  }
+
   private setTimingSetting(key: string, value: string): void {
     localStorage.setItem(key, value);
   }
 
-  private showSettingsModal(): void {
+  private saveTimingSettings(settings: TimingSettings): void {
+    this.setTimingSetting(this.LENGTH_DELAY_ENABLED_KEY, String(settings.lengthDelayEnabled));
+    this.setTimingSetting(this.LENGTH_DELAY_FACTOR_KEY, String(settings.lengthDelayFactor));
+    this.setTimingSetting(this.FREQUENCY_DELAY_ENABLED_KEY, String(settings.frequencyDelayEnabled));
+    this.setTimingSetting(this.FREQUENCY_DELAY_FACTOR_KEY, String(settings.frequencyDelayFactor));
+    this.setTimingSetting(this.EMPHASIS_DELAY_ENABLED_KEY, String(settings.emphasisDelayEnabled));
+    this.setTimingSetting(this.EMPHASIS_DELAY_FACTOR_KEY, String(settings.emphasisDelayFactor));
+    this.setTimingSetting(this.RAMP_UP_ENABLED_KEY, String(settings.rampUpEnabled));
+    this.setTimingSetting(this.RAMP_UP_START_FACTOR_KEY, String(settings.rampUpStartFactor));
+    this.setTimingSetting(this.RAMP_UP_WORDS_KEY, String(settings.rampUpWords));
+    this.setTimingSetting(this.PUNCTUATION_MULTIPLIERS_KEY, JSON.stringify(settings.punctuationMultipliers));
+  }
+
+  // Timing profiles
+  private readonly ACTIVE_PROFILE_KEY = 'rsvp-active-profile';
+
+  private async loadProfiles(): Promise<void> {
+    try {
+      this.profiles = await api.getProfiles();
+    } catch (err) {
+      console.error('Failed to load profiles:', err);
+    }
+  }
+
+  private getActiveProfile(): TimingProfile | null {
+    const stored = localStorage.getItem(this.ACTIVE_PROFILE_KEY);
+    if (!stored) return null;
+    return this.profiles.find(p => p.id === parseInt(stored)) ?? null;
+  }
+
+  private getProfileSettings(): ProfileSettings {
+    return {
+      wpm: this.engine.getWPM(),
+      timing: this.getTimingSettings(),
+      fontSize: this.getFontSize(),
+    };
+  }
+
+  private applyProfile(profile: TimingProfile): void {
+    // Profiles saved before newer settings existed (or before the server
+    // checked them) may lack fields, so merge over defaults
+    const { wpm, timing, fontSize } = profile.settings as Partial<ProfileSettings>;
+    this.saveTimingSettings({
+      ...DEFAULT_TIMING_SETTINGS,
+      ...timing,
+      punctuationMultipliers: { ...DEFAULT_PUNCTUATION_MULTIPLIERS, ...timing?.punctuationMultipliers },
+    });
+    this.setFontSize(typeof fontSize === 'number' ? fontSize : this.DEFAULT_FONT_SIZE);
+    localStorage.setItem(this.ACTIVE_PROFILE_KEY, String(profile.id));
+    this.applyWPM(typeof wpm === 'number' ? wpm : DEFAULT_WPM);
+  }
+
+  // Resume settings
+  private readonly REWIND_MODE_KEY = 'rsvp-rewind-mode';
+  private readonly REWIND_WORDS_KEY = 'rsvp-rewind-words';
+  private readonly REWIND_THRESHOLD_KEY = 'rsvp-rewind-threshold';
+
+  private getResumeSettings(): ResumeSettings {
+    const mode = localStorage.getItem(this.REWIND_MODE_KEY);
+    const words = localStorage.getItem(this.REWIND_WORDS_KEY);
+    const threshold = localStorage.getItem(this.REWIND_THRESHOLD_KEY);
+
+    return {
+      rewindMode: (mode as RewindMode | null) ?? DEFAULT_RESUME_SETTINGS.rewindMode,
+      rewindWords: words ? parseInt(words) : DEFAULT_RESUME_SETTINGS.rewindWords,
+      rewindThresholdSeconds: threshold ? parseInt(threshold) : DEFAULT_RESUME_SETTINGS.rewindThresholdSeconds,
+    };
+  }
+
+  private async showSettingsModal(): Promise<void> {
+    await this.loadProfiles();
+
+    const activeProfile = this.getActiveProfile();
     const currentFontSize = this.getFontSize();
+    const currentChunkSize = this.getChunkSize();
+    const splitLongWords = this.getSplitLongWords();
+    const maxWordLength = this.getMaxWordLength();
+    const noteMode = this.getNoteMode();
+    const imageMode = this.getImageMode();
+    const skipMatter = this.getSkipMatter();
     const timingSettings = this.getTimingSettings();
+    const resumeSettings = this.getResumeSettings();
 
     const modal = document.createElement('div');
     modal.className = 'settings-modal-overlay';
@@ -736,6 +1294,33 @@ export class App {
           <button class="settings-close">×</button>
         </div>
         <div class="settings-content">
+          <div class="setting-group">
+            <label class="setting-label">Profile</label>
+            <div class="setting-row">
+              <select class="setting-select profile-select">
+                <option value="">Custom</option>
+                ${this.profiles.map((p) => `
+                  <option value="${p.id}" ${p.id === activeProfile?.id ? 'selected' : ''}>${this.escapeHtml(p.name)}</option>
+                `).join('')}
+              </select>
+            </div>
+            <div class="profile-actions">
+              <button class="profile-btn profile-save-as">Save as…</button>
+              <button class="profile-btn profile-update" ${activeProfile ? '' : 'disabled'}>Update</button>
+              <button class="profile-btn profile-delete" ${activeProfile ? '' : 'disabled'}>Delete</button>
+            </div>
+            <div class="setting-row">
+              <label class="toggle-label">
+                <input type="checkbox" class="profile-book-default"
+                  ${activeProfile && activeProfile.id === this.currentBookProfileId ? 'checked' : ''}
+                  ${activeProfile && this.currentBookHash ? '' : 'disabled'}>
+                <span>Default for this book</span>
+              </label>
+            </div>
+          </div>
+
+          <div class="setting-divider"></div>
+
           <div class="setting-group">
             <label class="setting-label">Font Size</label>
             <div class="font-size-control">
@@ -744,7 +1329,79 @@ export class App {
               <button class="font-btn font-increase">A+</button>
             </div>
             <input type="range" class="font-slider"
-              min="1.5" max="5" step="0.25" value="${currentFontSize}">
+              min="${MIN_FONT_SIZE}" max="${MAX_FONT_SIZE}" step="0.25" value="${currentFontSize}">
+          </div>
+
+          <div class="setting-divider"></div>
+
+          <div class="setting-group">
+            <label class="setting-label">Words per Flash</label>
+            <div class="setting-slider-row chunk-row">
+              <input type="range" class="timing-slider chunk-slider"
+                min="${MIN_CHUNK_SIZE}" max="${MAX_CHUNK_SIZE}" step="1" value="${currentChunkSize}">
+              <span class="slider-value chunk-value">${currentChunkSize}</span>
+            </div>
+            <div class="setting-hint">Chunks break at punctuation and paragraph ends</div>
+          </div>
+
+          <div class="setting-divider"></div>
+
+          <div class="setting-group">
+            <label class="setting-label">Long Words</label>
+            <div class="setting-row">
+              <label class="toggle-label">
+                <input type="checkbox" class="split-words-toggle" ${splitLongWords ? 'checked' : ''}>
+                <span>Split long words</span>
+              </label>
+            </div>
+            <div class="setting-slider-row ${splitLongWords ? '' : 'disabled'}">
+              <span class="slider-label">Max:</span>
+              <input type="range" class="timing-slider max-word-length-slider"
+                min="${MIN_MAX_WORD_LENGTH}" max="${MAX_MAX_WORD_LENGTH}" step="1" value="${maxWordLength}">
+              <span class="slider-value max-word-length-value">${maxWordLength}</span>
+            </div>
+            <div class="setting-hint">Longer words flash in hyphenated pieces</div>
+          </div>
+
+          <div class="setting-divider"></div>
+
+          <div class="setting-group">
+            <label class="setting-label">Footnotes</label>
+            <div class="setting-row">
+              <select class="setting-select note-mode-select">
+                <option value="skip" ${noteMode === 'skip' ? 'selected' : ''}>Skip</option>
+                <option value="pause" ${noteMode === 'pause' ? 'selected' : ''}>Show when paused</option>
+                <option value="inline" ${noteMode === 'inline' ? 'selected' : ''}>Read after the sentence</option>
+              </select>
+            </div>
+            <div class="setting-hint">Paragraph view always shows notes on click</div>
+          </div>
+
+          <div class="setting-divider"></div>
+
+          <div class="setting-group">
+            <label class="setting-label">Images</label>
+            <div class="setting-row">
+              <select class="setting-select image-mode-select">
+                <option value="show" ${imageMode === 'show' ? 'selected' : ''}>Pause and show</option>
+                <option value="list" ${imageMode === 'list' ? 'selected' : ''}>List without pausing</option>
+                <option value="skip" ${imageMode === 'skip' ? 'selected' : ''}>Skip</option>
+              </select>
+            </div>
+            <div class="setting-hint">Paragraph view always shows images inline</div>
+          </div>
+
+          <div class="setting-divider"></div>
+
+          <div class="setting-group">
+            <label class="setting-label">Front &amp; Back Matter</label>
+            <div class="setting-row">
+              <label class="toggle-label">
+                <input type="checkbox" class="skip-matter-toggle" ${skipMatter ? 'checked' : ''}>
+                <span>Skip during playback</span>
+              </label>
+            </div>
+            <div class="setting-hint">Covers, copyright and contents pages, indexes and the like</div>
           </div>
 
           <div class="setting-divider"></div>
@@ -762,7 +1419,7 @@ export class App {
             <div class="setting-slider-row ${timingSettings.lengthDelayEnabled ? '' : 'disabled'}">
               <span class="slider-label">Factor:</span>
               <input type="range" class="timing-slider length-factor-slider"
-                min="0" max="0.5" step="0.05" value="${timingSettings.lengthDelayFactor}">
+                min="${TIMING_SETTING_RANGES.lengthDelayFactor.min}" max="${TIMING_SETTING_RANGES.lengthDelayFactor.max}" step="0.05" value="${timingSettings.lengthDelayFactor}">
               <span class="slider-value length-factor-value">${timingSettings.lengthDelayFactor.toFixed(2)}</span>
             </div>
 
@@ -776,9 +1433,83 @@ export class App {
             <div class="setting-slider-row ${timingSettings.frequencyDelayEnabled ? '' : 'disabled'}">
               <span class="slider-label">Factor:</span>
               <input type="range" class="timing-slider frequency-factor-slider"
-                min="0" max="1" step="0.1" value="${timingSettings.frequencyDelayFactor}">
+                min="${TIMING_SETTING_RANGES.frequencyDelayFactor.min}" max="${TIMING_SETTING_RANGES.frequencyDelayFactor.max}" step="0.1" value="${timingSettings.frequencyDelayFactor}">
               <span class="slider-value frequency-factor-value">${timingSettings.frequencyDelayFactor.toFixed(1)}</span>
             </div>
+
+            <div class="setting-row">
+              <label class="toggle-label">
+                <input type="checkbox" class="emphasis-delay-toggle"
+                  ${timingSettings.emphasisDelayEnabled ? 'checked' : ''}>
+                <span>Emphasized words show longer</span>
+              </label>
+            </div>
+            <div class="setting-slider-row ${timingSettings.emphasisDelayEnabled ? '' : 'disabled'}">
+              <span class="slider-label">Factor:</span>
+              <input type="range" class="timing-slider emphasis-factor-slider"
+                min="${TIMING_SETTING_RANGES.emphasisDelayFactor.min}" max="${TIMING_SETTING_RANGES.emphasisDelayFactor.max}" step="0.1" value="${timingSettings.emphasisDelayFactor}">
+              <span class="slider-value emphasis-factor-value">${timingSettings.emphasisDelayFactor.toFixed(1)}</span>
+            </div>
+
+            <div class="setting-row">
+              <label class="toggle-label">
+                <input type="checkbox" class="ramp-up-toggle"
+                  ${timingSettings.rampUpEnabled ? 'checked' : ''}>
+                <span>Ramp up speed after play</span>
+              </label>
+            </div>
+            <div class="setting-slider-row ${timingSettings.rampUpEnabled ? '' : 'disabled'}">
+              <span class="slider-label">Start:</span>
+              <input type="range" class="timing-slider ramp-start-slider"
+                min="${TIMING_SETTING_RANGES.rampUpStartFactor.min}" max="${TIMING_SETTING_RANGES.rampUpStartFactor.max}" step="0.05" value="${timingSettings.rampUpStartFactor}">
+              <span class="slider-value ramp-start-value">${Math.round(timingSettings.rampUpStartFactor * 100)}%</span>
+            </div>
+            <div class="setting-slider-row ${timingSettings.rampUpEnabled ? '' : 'disabled'}">
+              <span class="slider-label">Words:</span>
+              <input type="range" class="timing-slider ramp-words-slider"
+                min="${TIMING_SETTING_RANGES.rampUpWords.min}" max="${TIMING_SETTING_RANGES.rampUpWords.max}" step="5" value="${timingSettings.rampUpWords}">
+              <span class="slider-value ramp-words-value">${timingSettings.rampUpWords}</span>
+            </div>
+          </div>
+
+          <div class="setting-divider"></div>
+
+          <div class="setting-group">
+            <label class="setting-label">Punctuation Pauses</label>
+            ${this.PUNCTUATION_LABELS.map(([cls, label]) => `
+              <div class="setting-slider-row punctuation-row">
+                <span class="slider-label">${label}</span>
+                <input type="range" class="timing-slider punctuation-slider" data-class="${cls}"
+                  min="${PUNCTUATION_MULTIPLIER_RANGE.min}" max="${PUNCTUATION_MULTIPLIER_RANGE.max}" step="0.25" value="${timingSettings.punctuationMultipliers[cls]}">
+                <span class="slider-value punctuation-value">${timingSettings.punctuationMultipliers[cls].toFixed(2)}×</span>
+              </div>
+            `).join('')}
+          </div>
+
+          <div class="setting-divider"></div>
+
+          <div class="setting-group">
+            <label class="setting-label">Resume After Pause</label>
+
+            <div class="setting-row">
+              <select class="setting-select rewind-mode-select">
+                <option value="off" ${resumeSettings.rewindMode === 'off' ? 'selected' : ''}>Continue from current word</option>
+                <option value="sentence" ${resumeSettings.rewindMode === 'sentence' ? 'selected' : ''}>Back to start of sentence</option>
+                <option value="words" ${resumeSettings.rewindMode === 'words' ? 'selected' : ''}>Back a few words</option>
+              </select>
+            </div>
+            <div class="setting-slider-row ${resumeSettings.rewindMode === 'words' ? '' : 'disabled'}">
+              <span class="slider-label">Words:</span>
+              <input type="range" class="timing-slider rewind-words-slider"
+                min="1" max="20" step="1" value="${resumeSettings.rewindWords}">
+              <span class="slider-value rewind-words-value">${resumeSettings.rewindWords}</span>
+            </div>
+            <div class="setting-slider-row ${resumeSettings.rewindMode === 'off' ? 'disabled' : ''}">
+              <span class="slider-label">After:</span>
+              <input type="range" class="timing-slider rewind-threshold-slider"
+                min="0" max="120" step="5" value="${resumeSettings.rewindThresholdSeconds}">
+              <span class="slider-value rewind-threshold-value">${resumeSettings.rewindThresholdSeconds}s</span>
+            </div>
           </div>
         </div>
       </div>
@@ -786,6 +1517,11 @@ export class App {
 
     document.body.appendChild(modal);
     this.bindSettingsEvents(modal);
+    this.bindProfileEvents(modal);
+
+    // Any timing change re-prices the time estimates
+    modal.addEventListener('input', () => this.refreshTimeEstimates());
+    modal.addEventListener('change', () => this.refreshTimeEstimates());
   }
 
   private bindSettingsEvents(modal: HTMLElement): void {
@@ -801,7 +1537,7 @@ export class App {
     const fontValue = modal.querySelector('.font-size-value')!;
 
     const updateFontSize = (size: number) => {
-      const clamped = Math.max(1.5, Math.min(5, size));
+      const clamped = Math.max(MIN_FONT_SIZE, Math.min(MAX_FONT_SIZE, size));
       this.setFontSize(clamped);
       fontValue.textContent = `${clamped}rem`;
       fontSlider.value = String(clamped);
@@ -813,6 +1549,62 @@ export class App {
     modal.querySelector('.font-increase')!.addEventListener('click', () =>
       updateFontSize(this.getFontSize() + 0.25));
 
+    // Punctuation pause sliders
+    modal.querySelectorAll('.punctuation-slider').forEach((el) => {
+      const slider = el as HTMLInputElement;
+      const value = slider.closest('.setting-slider-row')!.querySelector('.punctuation-value')!;
+      slider.addEventListener('input', () => {
+        const multipliers = this.getPunctuationMultipliers();
+        multipliers[slider.dataset.class as PunctuationClass] = parseFloat(slider.value);
+        this.setTimingSetting(this.PUNCTUATION_MULTIPLIERS_KEY, JSON.stringify(multipliers));
+        value.textContent = `${parseFloat(slider.value).toFixed(2)}×`;
+      });
+    });
+
+    // Chunk size
+    const chunkSlider = modal.querySelector('.chunk-slider') as HTMLInputElement;
+    const chunkValue = modal.querySelector('.chunk-value')!;
+    chunkSlider.addEventListener('input', () => {
+      const size = parseInt(chunkSlider.value);
+      this.setChunkSize(size);
+      chunkValue.textContent = String(size);
+    });
+
+    // Long word splitting
+    const splitToggle = modal.querySelector('.split-words-toggle') as HTMLInputElement;
+    const maxLengthSlider = modal.querySelector('.max-word-length-slider') as HTMLInputElement;
+    const maxLengthValue = modal.querySelector('.max-word-length-value')!;
+    const maxLengthRow = maxLengthSlider.closest('.setting-slider-row')!;
+
+    splitToggle.addEventListener('change', () => {
+      this.setLongWordSplitting(splitToggle.checked, parseInt(maxLengthSlider.value));
+      maxLengthRow.classList.toggle('disabled', !splitToggle.checked);
+    });
+
+    maxLengthSlider.addEventListener('input', () => {
+      const length = parseInt(maxLengthSlider.value);
+      this.setLongWordSplitting(splitToggle.checked, length);
+      maxLengthValue.textContent = String(length);
+    });
+
+    // Footnotes
+    const noteModeSelect = modal.querySelector('.note-mode-select') as HTMLSelectElement;
+    noteModeSelect.addEventListener('change', () => {
+      this.setNoteMode(noteModeSelect.value as NoteMode);
+    });
+
+    // Images
+    const imageModeSelect = modal.querySelector('.image-mode-select') as HTMLSelectElement;
+    imageModeSelect.addEventListener('change', () => {
+      this.setImageMode(imageModeSelect.value as ImageMode);
+    });
+
+    // Front and back matter
+    const skipMatterToggle = modal.querySelector('.skip-matter-toggle') as HTMLInputElement;
+    skipMatterToggle.addEventListener('change', () => {
+      this.setSkipMatter(skipMatterToggle.checked);
+    });
+
     // Timing controls
     const lengthToggle = modal.querySelector('.length-delay-toggle') as HTMLInputElement;
     const lengthSlider = modal.querySelector('.length-factor-slider') as HTMLInputElement;
@@ -824,6 +1616,21 @@ export class App {
     const freqValue = modal.querySelector('.frequency-factor-value')!;
     const freqSliderRow = freqSlider.closest('.setting-slider-row')!;
 
+    const emphasisToggle = modal.querySelector('.emphasis-delay-toggle') as HTMLInputElement;
+    const emphasisSlider = modal.querySelector('.emphasis-factor-slider') as HTMLInputElement;
+    const emphasisValue = modal.querySelector('.emphasis-factor-value')!;
+    const emphasisSliderRow = emphasisSlider.closest('.setting-slider-row')!;
+
+    const rampToggle = modal.querySelector('.ramp-up-toggle') as HTMLInputElement;
+    const rampStartSlider = modal.querySelector('.ramp-start-slider') as HTMLInputElement;
+    const rampStartValue = modal.querySelector('.ramp-start-value')!;
+    const rampWordsSlider = modal.querySelector('.ramp-words-slider') as HTMLInputElement;
+    const rampWordsValue = modal.querySelector('.ramp-words-value')!;
+    const rampSliderRows = [
+      rampStartSlider.closest('.setting-slider-row')!,
+      rampWordsSlider.closest('.setting-slider-row')!,
+    ];
+
     // Length delay toggle
     lengthToggle.addEventListener('change', () => {
       this.setTimingSetting(this.LENGTH_DELAY_ENABLED_KEY, String(lengthToggle.checked));
@@ -849,5 +1656,139 @@ export class App {
       this.setTimingSetting(this.FREQUENCY_DELAY_FACTOR_KEY, String(factor));
       freqValue.textContent = factor.toFixed(1);
     });
+
+    // Emphasis delay toggle
+    emphasisToggle.addEventListener('change', () => {
+      this.setTimingSetting(this.EMPHASIS_DELAY_ENABLED_KEY, String(emphasisToggle.checked));
+      emphasisSliderRow.classList.toggle('disabled', !emphasisToggle.checked);
+    });
+
+    // Emphasis delay factor slider
+    emphasisSlider.addEventListener('input', () => {
+      const factor = parseFloat(emphasisSlider.value);
+      this.setTimingSetting(this.EMPHASIS_DELAY_FACTOR_KEY, String(factor));
+      emphasisValue.textContent = factor.toFixed(1);
+    });
+
+    // Resume controls
+    const rewindModeSelect = modal.querySelector('.rewind-mode-select') as HTMLSelectElement;
+    const rewindWordsSlider = modal.querySelector('.rewind-words-slider') as HTMLInputElement;
+    const rewindWordsValue = modal.querySelector('.rewind-words-value')!;
+    const rewindWordsRow = rewindWordsSlider.closest('.setting-slider-row')!;
+    const rewindThresholdSlider = modal.querySelector('.rewind-threshold-slider') as HTMLInputElement;
+    const rewindThresholdValue = modal.querySelector('.rewind-threshold-value')!;
+    const rewindThresholdRow = rewindThresholdSlider.closest('.setting-slider-row')!;
+
+    rewindModeSelect.addEventListener('change', () => {
+      const mode = rewindModeSelect.value as RewindMode;
+      localStorage.setItem(this.REWIND_MODE_KEY, mode);
+      rewindWordsRow.classList.toggle('disabled', mode !== 'words');
+      rewindThresholdRow.classList.toggle('disabled', mode === 'off');
+    });
+
+    rewindWordsSlider.addEventListener('input', () => {
+      const words = parseInt(rewindWordsSlider.value);
+      localStorage.setItem(this.REWIND_WORDS_KEY, String(words));
+      rewindWordsValue.textContent = String(words);
+    });
+
+    rewindThresholdSlider.addEventListener('input', () => {
+      const seconds = parseInt(rewindThresholdSlider.value);
+      localStorage.setItem(this.REWIND_THRESHOLD_KEY, String(seconds));
+      rewindThresholdValue.textContent = `${seconds}s`;
+    });
+
+    // Ramp-up toggle
+    rampToggle.addEventListener('change', () => {
+      this.setTimingSetting(this.RAMP_UP_ENABLED_KEY, String(rampToggle.checked));
+      rampSliderRows.forEach(row => row.classList.toggle('disabled', !rampToggle.checked));
+    });
+
+    // Ramp-up starting speed slider
+    rampStartSlider.addEventListener('input', () => {
+      const factor = parseFloat(rampStartSlider.value);
+      this.setTimingSetting(this.RAMP_UP_START_FACTOR_KEY, String(factor));
+      rampStartValue.textContent = `${Math.round(factor * 100)}%`;
+    });
+
+    // Ramp-up length slider
+    rampWordsSlider.addEventListener('input', () => {
+      const words = parseInt(rampWordsSlider.value);
+      this.setTimingSetting(this.RAMP_UP_WORDS_KEY, String(words));
+      rampWordsValue.textContent = String(words);
+    });
+  }
+
+  private bindProfileEvents(modal: HTMLElement): void {
+    const reopen = () => {
+      modal.remove();
+      this.showSettingsModal();
+    };
+
+    const profileSelect = modal.querySelector('.profile-select') as HTMLSelectElement;
+    const bookDefaultToggle = modal.querySelector('.profile-book-default') as HTMLInputElement;
+
+    // Switching profile applies it immediately and refreshes every control
+    profileSelect.addEventListener('change', () => {
+      const profile = this.profiles.find(p => p.id === parseInt(profileSelect.value));
+      if (profile) {
+        this.applyProfile(profile);
+      } else {
+        localStorage.removeItem(this.ACTIVE_PROFILE_KEY);
+      }
+      reopen();
+    });
+
+    modal.querySelector('.profile-save-as')!.addEventListener('click', async () => {
+      const name = prompt('Profile name:')?.trim();
+      if (!name) return;
+      try {
+        const profile = await api.createProfile(name, this.getProfileSettings());
+        localStorage.setItem(this.ACTIVE_PROFILE_KEY, String(profile.id));
+        reopen();
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Failed to create profile');
+      }
+    });
+
+    modal.querySelector('.profile-update')!.addEventListener('click', async () => {
+      const profile = this.getActiveProfile();
+      if (!profile) return;
+      try {
+        await api.updateProfile(profile.id, profile.name, this.getProfileSettings());
+        reopen();
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Failed to update profile');
+      }
+    });
+
+    modal.querySelector('.profile-delete')!.addEventListener('click', async () => {
+      const profile = this.getActiveProfile();
+      if (!profile) return;
+      if (!confirm(`Delete profile "${profile.name}"?`)) return;
+      try {
+        await api.deleteProfile(profile.id);
+        localStorage.removeItem(this.ACTIVE_PROFILE_KEY);
+        if (this.currentBookProfileId === profile.id) {
+          this.currentBookProfileId = null;
+        }
+        reopen();
+      } catch (err) {
+        alert(err instanceof Error ? err.message : 'Failed to delete profile');
+      }
+    });
+
+    bookDefaultToggle.addEventListener('change', async () => {
+      const profile = this.getActiveProfile();
+      if (!profile || !this.currentBookHash) return;
+      const profileId = bookDefaultToggle.checked ? profile.id : null;
+      try {
+        await api.setBookProfile(this.currentBookHash, profileId);
+        this.currentBookProfileId = profileId;
+      } catch (err) {
+        console.error('Failed to set book profile:', err);
+        bookDefaultToggle.checked = !bookDefaultToggle.checked;
+      }
+    });
   }
 }
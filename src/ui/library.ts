@@ -1,4 +1,5 @@
 import { api, type BookInfo } from '../api/client';
+import { UPLOAD_ACCEPT } from '../import/formats';
 
 type BookSelectedCallback = (book: BookInfo) => void;
 
@@ -25,8 +26,8 @@ export class Library {
           <h1>Library</h1>
           <div class="library-actions">
             <input type="text" class="library-search" placeholder="Search books...">
-            <button class="upload-btn">Upload EPUB</button>
-            <input type="file" class="upload-input" accept=".epub" multiple style="display: none;">
+            <button class="upload-btn">Upload Book</button>
+            <input type="file" class="upload-input" accept="${UPLOAD_ACCEPT}" multiple style="display: none;">
           </div>
         </div>
         <div class="library-content">
@@ -76,7 +77,7 @@ export class Library {
       content.innerHTML = `
         <div class="library-empty">
           ${this.books.length === 0
-            ? 'No books yet. Upload an EPUB to get started.'
+            ? 'No books yet. Upload a book to get started.'
             : 'No books match your search.'}
         </div>
       `;
@@ -111,7 +112,7 @@ export class Library {
   }
 
   private renderBookCard(book: BookInfo): string {
-    const title = book.title || book.filename.replace('.epub', '');
+    const title = book.title || book.filename.replace(/\.[^.]+$/, '');
     const author = book.author || 'Unknown Author';
     const lastRead = book.last_read_at
       ? this.formatDate(book.last_read_at)
@@ -128,6 +129,7 @@ export class Library {
       <div class="book-card" data-hash="${book.hash}">
         <div class="book-cover">
           <span class="book-icon">📖</span>
+          <span class="book-format">${book.format.toUpperCase()}</span>
         </div>
         <div class="book-info">
           <div class="book-title" title="${this.escapeHtml(title)}">${this.escapeHtml(title)}</div>